@@ -0,0 +1,81 @@
+// scripts/asset-manifest.js
+// Reads src/utils/AssetManifest.ts (and the generated AudioVariants.ts) from Node for the build scripts
+// (check-assets, the service worker plugin).
+// The file is parsed with regexes, so keep its layout: one `'id': 'path'` per line, bundles indented by four spaces.
+
+const fs = require('fs');
+const path = require('path');
+
+const SRC_DIR = path.resolve(__dirname, '..', 'src');
+const ASSETS_DIR = path.join(SRC_DIR, 'assets');
+const MANIFEST_FILE = path.join(SRC_DIR, 'utils', 'AssetManifest.ts');
+const AUDIO_VARIANTS_FILE = path.join(SRC_DIR, 'utils', 'AudioVariants.ts');
+
+// Comment lines are skipped so commented-out loads don't count as references
+function readSource(file) {
+  return fs.readFileSync(file, 'utf8')
+    .split('\n')
+    .filter(line => !line.trim().startsWith('//'))
+    .join('\n');
+}
+
+// Pulls `'id': 'path'` pairs out of one block of ASSET_MANIFEST (textures, atlases, models or audio)
+function parseManifest(source) {
+  const manifest = {};
+  for (const type of ['textures', 'atlases', 'models', 'audio']) {
+    const block = source.match(new RegExp(`\\b${type}: \\{([^}]*)\\}`));
+    manifest[type] = new Map();
+    if (!block) continue;
+    for (const [, id, assetPath] of block[1].matchAll(/'([^']+)':\s*'([^']+)'/g)) {
+      manifest[type].set(id, assetPath);
+    }
+  }
+  return manifest;
+}
+
+// Every id listed in ASSET_BUNDLES, with the bundle it came from
+function parseBundles(source) {
+  const start = source.indexOf('export const ASSET_BUNDLES');
+  if (start === -1) return [];
+  const body = source.slice(start, source.indexOf('satisfies', start));
+  const entries = [];
+  let bundle = null;
+  for (const line of body.split('\n')) {
+    const bundleMatch = line.match(/^ {4}(\w+): \{/);
+    if (bundleMatch) bundle = bundleMatch[1];
+    for (const [, id] of line.matchAll(/'([^']+)'/g)) {
+      entries.push({ bundle, id });
+    }
+  }
+  return entries;
+}
+
+// Files named as `alternate` fallbacks in ASSET_LOAD_POLICIES, with the id they stand in for
+function parseAlternates(source) {
+  return [...source.matchAll(/'([^']+)':\s*\{[^}]*\balternate:\s*'([^']+)'/g)].map(([, id, assetPath]) => ({ id, path: assetPath }));
+}
+
+// Sheet image of an atlas, which its JSON names relative to itself. Throws if the JSON can't be read.
+function readAtlasImage(atlasPath) {
+  const image = JSON.parse(fs.readFileSync(path.join(ASSETS_DIR, atlasPath), 'utf8')).meta.image;
+  return path.posix.join(path.posix.dirname(atlasPath), image);
+}
+
+// Variant files of each sound, as scripts/encode-audio.js listed them
+function parseAudioVariants() {
+  if (!fs.existsSync(AUDIO_VARIANTS_FILE)) return [];
+  const variants = [];
+  let id = null;
+  for (const line of readSource(AUDIO_VARIANTS_FILE).split('\n')) {
+    const idMatch = line.match(/^\s*'([^']+)':\s*\[/);
+    if (idMatch) id = idMatch[1];
+    const pathMatch = line.match(/\bpath:\s*'([^']+)'/);
+    if (pathMatch) variants.push({ id, path: pathMatch[1] });
+  }
+  return variants;
+}
+
+module.exports = {
+  SRC_DIR, ASSETS_DIR, MANIFEST_FILE, AUDIO_VARIANTS_FILE,
+  readSource, parseManifest, parseBundles, parseAlternates, parseAudioVariants, readAtlasImage,
+};
@@ -0,0 +1,149 @@
+// scripts/check-assets.js
+// Checks asset references against src/assets before a build:
+//  - missing:    manifest paths, atlas sheet images, fallback alternates, audio variants, or raw 'assets/...' literals,
+//                that point at no file;
+//                ids passed to loadTexture/loadAtlas/loadAudio/loadModel/loadSound or listed in a bundle that aren't in the manifest
+//  - unused:     files in src/assets nothing refers to, and manifest ids no bundle or code uses
+//  - duplicated: files with identical contents, and files listed under more than one id
+// Missing references fail the check; unused and duplicated ones are warnings unless --strict is passed.
+//
+// Usage: node scripts/check-assets.js [--strict]
+
+const fs = require('fs');
+const path = require('path');
+const crypto = require('crypto');
+
+const {
+  SRC_DIR, ASSETS_DIR, MANIFEST_FILE, AUDIO_VARIANTS_FILE,
+  readSource, parseManifest, parseBundles, parseAlternates, parseAudioVariants, readAtlasImage,
+} = require('./asset-manifest');
+
+const ROOT = path.resolve(__dirname, '..');
+
+// Only these count as assets; notes such as descricao.md live next to them
+const ASSET_EXTENSIONS = ['.png', '.jpg', '.jpeg', '.webp', '.ktx2', '.glb', '.gltf', '.mp3', '.ogg', '.opus', '.wav', '.ttf', '.woff', '.woff2', '.json'];
+
+const strict = process.argv.includes('--strict');
+
+function listFiles(dir) {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap(entry => {
+    const fullPath = path.join(dir, entry.name);
+    return entry.isDirectory() ? listFiles(fullPath) : [fullPath];
+  });
+}
+
+function toAssetPath(fullPath) {
+  return path.relative(ASSETS_DIR, fullPath).split(path.sep).join('/');
+}
+
+function main() {
+  const errors = [];
+  const warnings = [];
+
+  const manifestSource = readSource(MANIFEST_FILE);
+  const manifest = parseManifest(manifestSource);
+  const allIds = new Map(); // id -> path, across types
+  for (const type of Object.keys(manifest)) {
+    for (const [id, assetPath] of manifest[type]) allIds.set(id, assetPath);
+  }
+
+  const files = listFiles(ASSETS_DIR).filter(file => ASSET_EXTENSIONS.includes(path.extname(file).toLowerCase()));
+  const existing = new Set(files.map(toAssetPath));
+  const referencedPaths = new Set();
+  const usedIds = new Set();
+
+  // Manifest paths
+  for (const [id, assetPath] of allIds) {
+    referencedPaths.add(assetPath);
+    if (!existing.has(assetPath)) errors.push(`Missing file for manifest id "${id}": src/assets/${assetPath}`);
+  }
+
+  // Sheet image of each atlas, named in its JSON relative to it
+  for (const [id, atlasPath] of manifest.atlases) {
+    if (!existing.has(atlasPath)) continue;
+    let imagePath;
+    try {
+      imagePath = readAtlasImage(atlasPath);
+    } catch (error) {
+      errors.push(`Atlas "${id}" (src/assets/${atlasPath}) is not a TexturePacker JSON file: ${error.message}`);
+      continue;
+    }
+    referencedPaths.add(imagePath);
+    if (!existing.has(imagePath)) errors.push(`Missing sheet for atlas "${id}": src/assets/${imagePath}`);
+  }
+
+  // Alternates named in ASSET_LOAD_POLICIES, used when the manifest file fails to load
+  for (const { id, path: assetPath } of parseAlternates(manifestSource)) {
+    referencedPaths.add(assetPath);
+    if (!existing.has(assetPath)) errors.push(`Missing alternate for "${id}": src/assets/${assetPath}`);
+  }
+
+  // Variants AssetLoader may load instead of a sound's manifest file
+  for (const { id, path: assetPath } of parseAudioVariants()) {
+    referencedPaths.add(assetPath);
+    if (!allIds.has(id)) errors.push(`${path.relative(ROOT, AUDIO_VARIANTS_FILE)} lists "${id}", which is not in the manifest (rerun npm run encode-audio)`);
+    if (!existing.has(assetPath)) errors.push(`Missing audio variant for "${id}": src/assets/${assetPath}`);
+  }
+
+  // Bundles
+  for (const { bundle, id } of parseBundles(manifestSource)) {
+    usedIds.add(id);
+    if (!allIds.has(id)) errors.push(`Bundle "${bundle}" lists "${id}", which is not in the manifest`);
+  }
+
+  // Ids passed to the loaders, and raw 'assets/...' paths (fonts, CSS urls)
+  const sourceFiles = listFiles(SRC_DIR).filter(file =>
+    /\.(ts|html|css)$/.test(file) && !file.startsWith(ASSETS_DIR) && file !== MANIFEST_FILE && file !== AUDIO_VARIANTS_FILE);
+  for (const file of sourceFiles) {
+    const source = readSource(file);
+    const relative = path.relative(ROOT, file);
+
+    for (const [, id] of source.matchAll(/\b(?:loadTexture|loadAtlas|loadAudio|loadModel|texture|atlas|model|audio)\(\s*'([^']+)'/g)) {
+      usedIds.add(id);
+      if (!allIds.has(id)) errors.push(`${relative}: "${id}" is not in the asset manifest`);
+    }
+    for (const [, id] of source.matchAll(/\bloadSound\(\s*[^,]+,\s*'([^']+)'/g)) {
+      usedIds.add(id);
+      if (!allIds.has(id)) errors.push(`${relative}: sound "${id}" is not in the asset manifest`);
+    }
+    for (const [, assetPath] of source.matchAll(/['"(]assets\/([^'")]+\.[a-z0-9]+)['")]/gi)) {
+      referencedPaths.add(assetPath);
+      if (!existing.has(assetPath)) errors.push(`${relative}: src/assets/${assetPath} does not exist`);
+    }
+  }
+
+  // Unused
+  for (const assetPath of [...existing].sort()) {
+    if (!referencedPaths.has(assetPath)) warnings.push(`Unused file: src/assets/${assetPath}`);
+  }
+  for (const id of allIds.keys()) {
+    if (!usedIds.has(id)) warnings.push(`Manifest id "${id}" is in no bundle and never loaded`);
+  }
+
+  // Duplicates
+  const idsByPath = new Map();
+  for (const [id, assetPath] of allIds) {
+    idsByPath.set(assetPath, [...(idsByPath.get(assetPath) || []), id]);
+  }
+  for (const [assetPath, ids] of idsByPath) {
+    if (ids.length > 1) warnings.push(`src/assets/${assetPath} is listed under several ids: ${ids.join(', ')}`);
+  }
+  const filesByHash = new Map();
+  for (const file of files) {
+    const hash = crypto.createHash('sha1').update(fs.readFileSync(file)).digest('hex');
+    filesByHash.set(hash, [...(filesByHash.get(hash) || []), toAssetPath(file)]);
+  }
+  for (const sameFiles of filesByHash.values()) {
+    if (sameFiles.length > 1) warnings.push(`Identical files: ${sameFiles.join(', ')}`);
+  }
+
+  for (const message of warnings) console.warn(`[check-assets] warning: ${message}`);
+  for (const message of errors) console.error(`[check-assets] error: ${message}`);
+
+  const failed = errors.length > 0 || (strict && warnings.length > 0);
+  console.log(`[check-assets] ${allIds.size} manifest ids, ${existing.size} files: ` +
+    `${errors.length} missing, ${warnings.length} warnings.${failed ? ' FAILED' : ''}`);
+  process.exitCode = failed ? 1 : 0;
+}
+
+main();
@@ -0,0 +1,164 @@
+// scripts/encode-audio.js
+// Encodes the source WAVs in art/audio/ into the files AssetLoader picks from, then lists the variants
+// in src/utils/AudioVariants.ts. art/audio/ mirrors the manifest paths: art/audio/sounds/click.wav is the
+// source of 'ui.click' (sounds/click.mp3), whose variants are written next to it (sounds/click.low.opus, ...).
+// Sounds without a WAV get their variants from the manifest MP3 instead, once (they are only made when missing).
+// Runs before every build; with everything up to date it doesn't need ffmpeg. When it does, it needs ffmpeg
+// with libmp3lame, libopus and libvorbis on the PATH, or its path in FFMPEG.
+//
+// Usage: node scripts/encode-audio.js [--force] [--recompress]
+//   --force       re-encodes every file, even those up to date
+//   --recompress  also re-encodes the manifest MP3s that have no WAV at the manifest bitrate, keeping
+//                 each one only if it comes out smaller (for MP3s dropped in straight from elsewhere)
+
+const fs = require('fs');
+const path = require('path');
+const { spawnSync } = require('child_process');
+const { SRC_DIR, ASSETS_DIR, MANIFEST_FILE, readSource, parseManifest } = require('./asset-manifest');
+
+const ROOT = path.resolve(__dirname, '..');
+const ART_DIR = path.join(ROOT, 'art', 'audio');
+const VARIANTS_FILE = path.join(SRC_DIR, 'utils', 'AudioVariants.ts');
+const FFMPEG = process.env.FFMPEG || 'ffmpeg';
+
+// suffix replaces the manifest file's '.mp3'; the first entry is the manifest file itself, which every browser plays
+const ENCODINGS = [
+  { suffix: '.mp3', format: 'mp3', quality: 'high', channels: 2, muxer: 'mp3', codec: ['-c:a', 'libmp3lame', '-b:a', '96k', '-ar', '44100'] },
+  { suffix: '.high.opus', format: 'opus', quality: 'high', channels: 2, muxer: 'opus', codec: ['-c:a', 'libopus', '-b:a', '64k'] },
+  { suffix: '.low.opus', format: 'opus', quality: 'low', channels: 1, muxer: 'opus', codec: ['-c:a', 'libopus', '-b:a', '24k'] },
+  { suffix: '.high.ogg', format: 'ogg', quality: 'high', channels: 2, muxer: 'ogg', codec: ['-c:a', 'libvorbis', '-q:a', '4'] },
+  { suffix: '.low.mp3', format: 'mp3', quality: 'low', channels: 1, muxer: 'mp3', codec: ['-c:a', 'libmp3lame', '-b:a', '48k', '-ar', '44100'] },
+];
+
+const force = process.argv.includes('--force');
+const recompress = process.argv.includes('--recompress');
+
+function formatSize(bytes) {
+  return bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.round(bytes / 1024)} KB`;
+}
+
+// A WAV is the master copy, so anything older than it is redone; variants of an MP3 only need to exist
+function isUpToDate(output, source) {
+  if (force || !fs.existsSync(output)) return false;
+  return !source.endsWith('.wav') || fs.statSync(output).mtimeMs >= fs.statSync(source).mtimeMs;
+}
+
+// Written under a temporary name first, so a failed encode doesn't leave a truncated file behind
+function encode(source, output, encoding) {
+  const partial = `${output}.part`;
+  const result = spawnSync(FFMPEG, [
+    '-hide_banner', '-loglevel', 'error', '-y', '-i', source,
+    '-vn', '-map_metadata', '-1', '-ac', String(encoding.channels), ...encoding.codec, '-f', encoding.muxer, partial,
+  ], { stdio: ['ignore', 'inherit', 'inherit'] });
+  if (result.error || result.status !== 0) {
+    fs.rmSync(partial, { force: true });
+    throw new Error(`ffmpeg failed on ${path.relative(ROOT, source)}: ${result.error ? result.error.message : `exit code ${result.status}`}`);
+  }
+  fs.renameSync(partial, output);
+}
+
+// The old compress_sounds.ps1 pass: swaps the MP3 for a re-encode only when that saves space
+function recompressMp3(file, encoding) {
+  const output = `${file.slice(0, -'.mp3'.length)}.recompressed.mp3`;
+  encode(file, output, encoding);
+  const before = fs.statSync(file).size;
+  const after = fs.statSync(output).size;
+  if (after < before) {
+    fs.renameSync(output, file);
+    console.log(`[encode-audio] ${path.relative(ASSETS_DIR, file)}: recompressed ${formatSize(before)} -> ${formatSize(after)}`);
+    return true;
+  }
+  fs.rmSync(output);
+  return false;
+}
+
+function writeVariantsFile(entries) {
+  const lines = [
+    '// src/utils/AudioVariants.ts',
+    '// Generated by scripts/encode-audio.js from the WAVs in art/audio/ (or the manifest MP3s); rerun `npm run encode-audio` instead of editing.',
+    "import { AudioId, AudioVariant } from './AssetManifest';",
+    '',
+    '// Sounds without an entry only have their manifest MP3',
+  ];
+  if (entries.length === 0) {
+    lines.push('export const AUDIO_VARIANTS: { readonly [Id in AudioId]?: readonly AudioVariant[] } = {};');
+  } else {
+    lines.push('export const AUDIO_VARIANTS: { readonly [Id in AudioId]?: readonly AudioVariant[] } = {');
+    entries.forEach(({ id, variants }, index) => {
+      lines.push(`    '${id}': [`);
+      variants.forEach((variant, variantIndex) => {
+        const separator = variantIndex < variants.length - 1 ? ',' : '';
+        lines.push(`        { format: '${variant.format}', quality: '${variant.quality}', channels: ${variant.channels}, path: '${variant.path}' }${separator}`);
+      });
+      lines.push(`    ]${index < entries.length - 1 ? ',' : ''}`);
+    });
+    lines.push('};');
+  }
+  fs.writeFileSync(VARIANTS_FILE, lines.join('\n') + '\n');
+}
+
+function main() {
+  const sounds = parseManifest(readSource(MANIFEST_FILE)).audio;
+  const withoutSource = [];
+  let sourceBytes = 0;
+  let encodedBytes = 0;
+  let encodedFiles = 0;
+
+  for (const [id, assetPath] of sounds) {
+    // Not a sound to compress, such as the reverb's impulse response
+    if (!assetPath.endsWith('.mp3')) continue;
+    const base = assetPath.slice(0, -'.mp3'.length);
+    let source = path.join(ART_DIR, `${base}.wav`);
+    let encodings = ENCODINGS;
+    if (!fs.existsSync(source)) {
+      source = path.join(ASSETS_DIR, assetPath);
+      encodings = ENCODINGS.slice(1); // The MP3 is the source; it is only redone with --recompress
+      if (!fs.existsSync(source)) continue; // check-assets reports it
+      withoutSource.push(id);
+      if (recompress && recompressMp3(source, ENCODINGS[0])) encodedFiles++;
+    }
+
+    const sizes = [];
+    for (const encoding of encodings) {
+      const output = path.join(ASSETS_DIR, base + encoding.suffix);
+      if (!isUpToDate(output, source)) {
+        fs.mkdirSync(path.dirname(output), { recursive: true });
+        encode(source, output, encoding);
+        encodedFiles++;
+      }
+      const size = fs.statSync(output).size;
+      encodedBytes += size;
+      sizes.push(`${encoding.suffix.slice(1)} ${formatSize(size)}`);
+    }
+    const size = fs.statSync(source).size;
+    sourceBytes += size;
+    console.log(`[encode-audio] ${base}: ${formatSize(size)} ${path.extname(source).slice(1).toUpperCase()} -> ${sizes.join(', ')}`);
+  }
+
+  // Every variant file that exists, whether encoded now or on an earlier run
+  const entries = [];
+  for (const [id, assetPath] of sounds) {
+    if (!assetPath.endsWith('.mp3')) continue;
+    const base = assetPath.slice(0, -'.mp3'.length);
+    const variants = ENCODINGS.slice(1)
+      .map(encoding => ({ ...encoding, path: base + encoding.suffix }))
+      .filter(variant => fs.existsSync(path.join(ASSETS_DIR, variant.path)));
+    if (variants.length > 0) entries.push({ id, variants });
+  }
+  writeVariantsFile(entries);
+
+  if (sourceBytes > 0) {
+    console.log(`[encode-audio] ${encodedFiles} file(s) encoded; ${formatSize(sourceBytes)} of sources -> ${formatSize(encodedBytes)} of MP3/Opus/Vorbis`);
+  }
+  if (withoutSource.length > 0) {
+    console.log(`[encode-audio] No WAV in art/audio/ for ${withoutSource.length} of ${sounds.size} sounds; their variants come from their MP3: ${withoutSource.join(', ')}`);
+  }
+  console.log(`[encode-audio] ${path.relative(ROOT, VARIANTS_FILE)}: ${entries.length} sound(s) with variants`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`[encode-audio] ${error.message}`);
+  process.exitCode = 1;
+}
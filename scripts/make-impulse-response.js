@@ -0,0 +1,85 @@
+// scripts/make-impulse-response.js
+// Writes the impulse response the mixer's convolution reverb uses (src/assets/sounds/reverb_ir.wav):
+// seeded stereo noise with an exponential decay whose highs die out faster than its lows, like a
+// medium hall. Swap the file for a recorded IR any time; only the name in the manifest matters.
+//
+// Usage: node scripts/make-impulse-response.js [seconds]   (default 2)
+
+const fs = require('fs');
+const path = require('path');
+
+const OUTPUT = path.resolve(__dirname, '..', 'src', 'assets', 'sounds', 'reverb_ir.wav');
+const SAMPLE_RATE = 22050; // Plenty for a reverb tail, and half the size of 44.1 kHz
+const PRE_DELAY = 0.01; // Seconds of silence before the first reflections
+const SEED = 0x41494f4e; // Same file on every run
+
+// Mulberry32: small seeded PRNG, so both channels get uncorrelated but reproducible noise
+function createRandom(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function renderChannel(random, seconds) {
+  const length = Math.round(seconds * SAMPLE_RATE);
+  const samples = new Float32Array(length);
+  const start = Math.round(PRE_DELAY * SAMPLE_RATE);
+  let lowpassed = 0;
+  for (let i = start; i < length; i++) {
+    const t = (i - start) / SAMPLE_RATE;
+    const progress = t / (seconds - PRE_DELAY);
+    const envelope = Math.exp(-6.9 * progress) * Math.min(1, t / 0.005); // -60 dB at the end, 5 ms fade-in
+    // One-pole low-pass that closes as the tail goes on
+    const smoothing = 0.15 + 0.8 * progress;
+    lowpassed += (1 - smoothing) * ((random() * 2 - 1) - lowpassed);
+    samples[i] = lowpassed * envelope;
+  }
+  return samples;
+}
+
+function writeWav(file, channels) {
+  const length = channels[0].length;
+  const peak = Math.max(...channels.map(channel => channel.reduce((max, value) => Math.max(max, Math.abs(value)), 0)));
+  const data = Buffer.alloc(length * channels.length * 2);
+  for (let i = 0; i < length; i++) {
+    channels.forEach((channel, index) => {
+      data.writeInt16LE(Math.round((channel[i] / peak) * 0.9 * 32767), (i * channels.length + index) * 2);
+    });
+  }
+
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(channels.length, 22);
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * channels.length * 2, 28); // Byte rate
+  header.writeUInt16LE(channels.length * 2, 32); // Block align
+  header.writeUInt16LE(16, 34); // Bits per sample
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(data.length, 40);
+  fs.writeFileSync(file, Buffer.concat([header, data]));
+}
+
+function main() {
+  const seconds = Number(process.argv[2] || 2);
+  if (!(seconds > PRE_DELAY)) throw new Error(`Invalid length "${process.argv[2]}"`);
+  const random = createRandom(SEED);
+  writeWav(OUTPUT, [renderChannel(random, seconds), renderChannel(random, seconds)]);
+  console.log(`[make-impulse-response] ${path.relative(process.cwd(), OUTPUT)}: ${seconds}s stereo at ${SAMPLE_RATE} Hz`);
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`[make-impulse-response] ${error.message}`);
+  process.exitCode = 1;
+}
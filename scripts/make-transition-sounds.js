@@ -0,0 +1,149 @@
+// scripts/make-transition-sounds.js
+// Writes the source WAVs of the shader transitions' sound cues into art/audio/sounds/, which
+// `npm run encode-audio` turns into the MP3 and variants the game loads (src/assets/sounds/wipe.mp3, ...):
+//   wipe.wav          noise swept through a band-pass, a swish for the neon edge crossing the screen
+//   dissolve.wav      bit-crushed blips that thicken and climb, the screen breaking into pixels
+//   rain_smear.wav    a swell of rain (filtered noise plus drops), for the view running down the glass
+// Each lasts about one phase of its transition. They are synthesized from seeded noise, like the reverb IR;
+// replace any of them with a recording in the same place whenever there is one.
+//
+// Usage: node scripts/make-transition-sounds.js && npm run encode-audio
+
+const fs = require('fs');
+const path = require('path');
+
+const OUTPUT_DIR = path.resolve(__dirname, '..', 'art', 'audio', 'sounds');
+const SAMPLE_RATE = 22050; // Mono; nothing in these needs more
+const SEED = 0x41494f4e; // Same files on every run
+
+// Mulberry32: small seeded PRNG, same as make-impulse-response.js
+function createRandom(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Rises over `attack` of the length, then falls away; both ends at 0 so there is no click
+function swell(progress, attack) {
+  return progress < attack
+    ? Math.sin((progress / attack) * Math.PI / 2) ** 2
+    : Math.cos(((progress - attack) / (1 - attack)) * Math.PI / 2) ** 2;
+}
+
+// State-variable band-pass, retuned per sample so the centre can sweep
+function createBandPass() {
+  let low = 0;
+  let band = 0;
+  return (input, frequency, q) => {
+    const f = 2 * Math.sin(Math.PI * Math.min(frequency, SAMPLE_RATE / 6) / SAMPLE_RATE);
+    low += f * band;
+    const high = input - low - band / q;
+    band += f * high;
+    return band;
+  };
+}
+
+function renderWipe(random) {
+  const seconds = 0.7;
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const bandPass = createBandPass();
+  for (let i = 0; i < samples.length; i++) {
+    const progress = i / samples.length;
+    // Up from 400 Hz to 4 kHz as the edge crosses, and back down a little as it leaves
+    const frequency = 400 * Math.pow(10, Math.sin(progress * Math.PI * 0.85));
+    samples[i] = bandPass(random() * 2 - 1, frequency, 1.5) * swell(progress, 0.6);
+  }
+  return samples;
+}
+
+function renderDissolve(random) {
+  const seconds = 0.9;
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  let blipEnd = 0;
+  let period = 1;
+  let level = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const progress = i / samples.length;
+    // A new square-wave blip of random pitch every so often, closer together and higher as it goes
+    if (i >= blipEnd && random() < 0.002 + 0.01 * progress) {
+      blipEnd = i + Math.round(SAMPLE_RATE * (0.015 + random() * 0.03));
+      period = Math.max(2, Math.round(SAMPLE_RATE / (600 + random() * 2400 * (0.5 + progress))));
+      level = 0.4 + random() * 0.6;
+    }
+    const blip = i < blipEnd ? (Math.floor(i / (period / 2)) % 2 ? level : -level) : 0;
+    // 4-bit hiss underneath, like the steps of the dissolve
+    const hiss = Math.round((random() * 2 - 1) * 8) / 8 * 0.15;
+    samples[i] = (blip + hiss) * swell(progress, 0.7);
+  }
+  return samples;
+}
+
+function renderRainSmear(random) {
+  const seconds = 1.2;
+  const samples = new Float32Array(Math.round(seconds * SAMPLE_RATE));
+  const bandPass = createBandPass();
+  let lowpassed = 0;
+  let drop = 0;
+  for (let i = 0; i < samples.length; i++) {
+    const progress = i / samples.length;
+    lowpassed += 0.35 * ((random() * 2 - 1) - lowpassed);
+    // Drops: single impulses rung through a resonant band-pass, decaying quickly
+    if (random() < 0.004) drop += 0.5 + random();
+    drop *= 0.995;
+    const drops = bandPass(drop * (random() * 2 - 1), 2500 + random() * 1500, 4);
+    samples[i] = (lowpassed * 0.8 + drops) * swell(progress, 0.45);
+  }
+  return samples;
+}
+
+function writeWav(file, samples, peakLevel) {
+  const peak = samples.reduce((max, value) => Math.max(max, Math.abs(value)), 0) || 1;
+  const data = Buffer.alloc(samples.length * 2);
+  for (let i = 0; i < samples.length; i++) {
+    data.writeInt16LE(Math.round((samples[i] / peak) * peakLevel * 32767), i * 2);
+  }
+
+  const header = Buffer.alloc(44);
+  header.write('RIFF', 0, 'ascii');
+  header.writeUInt32LE(36 + data.length, 4);
+  header.write('WAVE', 8, 'ascii');
+  header.write('fmt ', 12, 'ascii');
+  header.writeUInt32LE(16, 16); // fmt chunk size
+  header.writeUInt16LE(1, 20); // PCM
+  header.writeUInt16LE(1, 22); // Mono
+  header.writeUInt32LE(SAMPLE_RATE, 24);
+  header.writeUInt32LE(SAMPLE_RATE * 2, 28); // Byte rate
+  header.writeUInt16LE(2, 32); // Block align
+  header.writeUInt16LE(16, 34); // Bits per sample
+  header.write('data', 36, 'ascii');
+  header.writeUInt32LE(data.length, 40);
+  fs.writeFileSync(file, Buffer.concat([header, data]));
+}
+
+const SOUNDS = [
+  { file: 'wipe.wav', render: renderWipe, peakLevel: 0.8 },
+  { file: 'dissolve.wav', render: renderDissolve, peakLevel: 0.6 }, // Square waves sound louder than their peak
+  { file: 'rain_smear.wav', render: renderRainSmear, peakLevel: 0.8 }
+];
+
+function main() {
+  fs.mkdirSync(OUTPUT_DIR, { recursive: true });
+  for (const sound of SOUNDS) {
+    const output = path.join(OUTPUT_DIR, sound.file);
+    const samples = sound.render(createRandom(SEED));
+    writeWav(output, samples, sound.peakLevel);
+    console.log(`[make-transition-sounds] ${path.relative(process.cwd(), output)}: ${(samples.length / SAMPLE_RATE).toFixed(2)}s mono at ${SAMPLE_RATE} Hz`);
+  }
+}
+
+try {
+  main();
+} catch (error) {
+  console.error(`[make-transition-sounds] ${error.message}`);
+  process.exitCode = 1;
+}
@@ -0,0 +1,208 @@
+// scripts/pack-atlas.js
+// Packs the frames in art/atlases/<atlas>/ into one PNG plus a TexturePacker "JSON (Hash)" description
+// that AssetLoader.loadAtlas() reads. Frame names are the file names without extension.
+// Frames are packed as they are (no trimming or rotation) so each keeps its size and anchor in the game.
+//
+// Usage: node scripts/pack-atlas.js [atlas...]   (all atlases when none is given)
+
+const fs = require('fs');
+const path = require('path');
+const zlib = require('zlib');
+
+const ROOT = path.resolve(__dirname, '..');
+const ART_DIR = path.join(ROOT, 'art', 'atlases');
+const ASSETS_DIR = path.join(ROOT, 'src', 'assets');
+
+// Source folder under art/atlases -> output path under src/assets (without extension)
+const ATLASES = {
+  bob: 'cena_3_galeria/bob.atlas',
+  marta: 'cena_3_galeria/marta.atlas',
+  cena1_desk: 'cena_1_trabalho/desk.atlas',
+};
+
+const MAX_SIZE = 4096; // Largest texture size we count on the GPU supporting
+const PADDING = 2; // Transparent pixels between frames, so filtering doesn't bleed neighbours in
+
+const PNG_SIGNATURE = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+const CRC_TABLE = new Int32Array(256).map((_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c;
+});
+
+function crc32(buffer) {
+  let crc = -1;
+  for (let i = 0; i < buffer.length; i++) crc = CRC_TABLE[(crc ^ buffer[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ -1) >>> 0;
+}
+
+function paeth(a, b, c) {
+  const p = a + b - c;
+  const pa = Math.abs(p - a);
+  const pb = Math.abs(p - b);
+  const pc = Math.abs(p - c);
+  return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+// 8-bit, non-interlaced RGB or RGBA only, which is what the art is exported as. Returns RGBA pixels.
+function readPng(file) {
+  const data = fs.readFileSync(file);
+  if (!data.subarray(0, 8).equals(PNG_SIGNATURE)) throw new Error(`${file} is not a PNG`);
+
+  let width = 0, height = 0, colorType = 0;
+  const idat = [];
+  for (let offset = 8; offset < data.length;) {
+    const length = data.readUInt32BE(offset);
+    const type = data.toString('ascii', offset + 4, offset + 8);
+    const body = data.subarray(offset + 8, offset + 8 + length);
+    if (type === 'IHDR') {
+      width = body.readUInt32BE(0);
+      height = body.readUInt32BE(4);
+      colorType = body[9];
+      if (body[8] !== 8 || (colorType !== 2 && colorType !== 6) || body[12] !== 0) {
+        throw new Error(`${file}: only 8-bit non-interlaced RGB/RGBA PNGs are supported`);
+      }
+    } else if (type === 'IDAT') {
+      idat.push(body);
+    }
+    offset += 12 + length;
+  }
+
+  const channels = colorType === 6 ? 4 : 3;
+  const stride = width * channels;
+  const raw = zlib.inflateSync(Buffer.concat(idat));
+  const pixels = Buffer.alloc(width * height * 4);
+  let previous = Buffer.alloc(stride);
+  for (let y = 0; y < height; y++) {
+    const filter = raw[y * (stride + 1)];
+    const row = Buffer.from(raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1)));
+    for (let i = 0; i < stride; i++) {
+      const left = i >= channels ? row[i - channels] : 0;
+      const up = previous[i];
+      const upLeft = i >= channels ? previous[i - channels] : 0;
+      if (filter === 1) row[i] += left;
+      else if (filter === 2) row[i] += up;
+      else if (filter === 3) row[i] += (left + up) >> 1;
+      else if (filter === 4) row[i] += paeth(left, up, upLeft);
+    }
+    for (let x = 0; x < width; x++) {
+      const target = (y * width + x) * 4;
+      row.copy(pixels, target, x * channels, x * channels + 3);
+      pixels[target + 3] = channels === 4 ? row[x * channels + 3] : 255;
+    }
+    previous = row;
+  }
+  return { width, height, pixels };
+}
+
+function chunk(type, body) {
+  const header = Buffer.alloc(8);
+  header.writeUInt32BE(body.length, 0);
+  header.write(type, 4, 'ascii');
+  const crc = Buffer.alloc(4);
+  crc.writeUInt32BE(crc32(Buffer.concat([header.subarray(4), body])), 0);
+  return Buffer.concat([header, body, crc]);
+}
+
+// Every row is written with the Up filter: cheap, and it compresses these mostly flat images well
+function writePng(file, { width, height, pixels }) {
+  const stride = width * 4;
+  const raw = Buffer.alloc(height * (stride + 1));
+  for (let y = 0; y < height; y++) {
+    const start = y * (stride + 1);
+    raw[start] = 2;
+    for (let i = 0; i < stride; i++) {
+      const up = y > 0 ? pixels[(y - 1) * stride + i] : 0;
+      raw[start + 1 + i] = (pixels[y * stride + i] - up) & 0xff;
+    }
+  }
+  const ihdr = Buffer.alloc(13);
+  ihdr.writeUInt32BE(width, 0);
+  ihdr.writeUInt32BE(height, 4);
+  ihdr[8] = 8; // Bit depth
+  ihdr[9] = 6; // RGBA
+  fs.writeFileSync(file, Buffer.concat([
+    PNG_SIGNATURE,
+    chunk('IHDR', ihdr),
+    chunk('IDAT', zlib.deflateSync(raw, { level: 9 })),
+    chunk('IEND', Buffer.alloc(0)),
+  ]));
+}
+
+// Shelf packing: tallest frames first, rows of a given width. Tries every useful width and keeps the smallest sheet.
+function pack(frames) {
+  const sorted = [...frames].sort((a, b) => b.height - a.height || a.name.localeCompare(b.name));
+  let best = null;
+  for (let columns = 1; columns <= sorted.length; columns++) {
+    const rowWidth = sorted.slice(0, columns).reduce((sum, frame) => sum + frame.width, 0) + PADDING * (columns - 1);
+    const placements = [];
+    let x = 0, y = 0, shelfHeight = 0, width = 0;
+    for (const frame of sorted) {
+      if (x > 0 && x + frame.width > rowWidth) {
+        x = 0;
+        y += shelfHeight + PADDING;
+        shelfHeight = 0;
+      }
+      placements.push({ frame, x, y });
+      x += frame.width + PADDING;
+      width = Math.max(width, x - PADDING);
+      shelfHeight = Math.max(shelfHeight, frame.height);
+    }
+    const height = y + shelfHeight;
+    if (width > MAX_SIZE || height > MAX_SIZE) continue;
+    if (!best || width * height < best.width * best.height) best = { width, height, placements };
+  }
+  if (!best) throw new Error(`Frames don't fit in ${MAX_SIZE}x${MAX_SIZE}; split the atlas`);
+  return best;
+}
+
+function packAtlas(name) {
+  const sourceDir = path.join(ART_DIR, name);
+  const output = path.join(ASSETS_DIR, ATLASES[name]);
+  const files = fs.readdirSync(sourceDir).filter(file => file.toLowerCase().endsWith('.png')).sort();
+  if (files.length === 0) throw new Error(`No PNG frames in ${path.relative(ROOT, sourceDir)}`);
+
+  const frames = files.map(file => ({ name: path.basename(file, path.extname(file)), ...readPng(path.join(sourceDir, file)) }));
+  const { width, height, placements } = pack(frames);
+
+  const sheet = { width, height, pixels: Buffer.alloc(width * height * 4) };
+  const description = { frames: {}, meta: {} };
+  for (const { frame, x, y } of placements.sort((a, b) => a.frame.name.localeCompare(b.frame.name))) {
+    for (let row = 0; row < frame.height; row++) {
+      frame.pixels.copy(sheet.pixels, ((y + row) * width + x) * 4, row * frame.width * 4, (row + 1) * frame.width * 4);
+    }
+    description.frames[frame.name] = {
+      frame: { x, y, w: frame.width, h: frame.height },
+      rotated: false,
+      trimmed: false,
+      spriteSourceSize: { x: 0, y: 0, w: frame.width, h: frame.height },
+      sourceSize: { w: frame.width, h: frame.height },
+    };
+  }
+  description.meta = {
+    app: 'scripts/pack-atlas.js',
+    image: `${path.basename(output)}.png`,
+    format: 'RGBA8888',
+    size: { w: width, h: height },
+    scale: '1',
+  };
+
+  writePng(`${output}.png`, sheet);
+  fs.writeFileSync(`${output}.json`, JSON.stringify(description, null, 2) + '\n');
+  console.log(`[pack-atlas] ${name}: ${frames.length} frames -> src/assets/${ATLASES[name]}.png (${width}x${height})`);
+}
+
+function main() {
+  const names = process.argv.slice(2);
+  for (const name of names.length > 0 ? names : Object.keys(ATLASES)) {
+    if (!ATLASES[name]) {
+      console.error(`[pack-atlas] Unknown atlas "${name}" (known: ${Object.keys(ATLASES).join(', ')})`);
+      process.exitCode = 1;
+      continue;
+    }
+    packAtlas(name);
+  }
+}
+
+main();
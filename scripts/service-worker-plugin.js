@@ -0,0 +1,110 @@
+// scripts/service-worker-plugin.js
+// Webpack plugin that emits service-worker.js: the template (src/service-worker.js) with this build's
+// cache version and file lists prepended.
+//  - SHELL_FILES:     what webpack emitted besides the assets (index.html, bundle.js)
+//  - ASSET_REVISIONS: every file of the asset manifest (plus atlas sheets, fallback alternates and extraAssets),
+//                     in bundle order so the files needed first are cached first, with a hash of its contents
+//  - OPTIONAL_ASSETS: audio variants (src/utils/AudioVariants.ts); cached once the game loads one, not downloaded
+//                     up front since it only ever plays one variant of each sound
+//  - CACHE_VERSION:   changes whenever the bundle or any of those files does
+// Runs in watch mode and on the dev server too, where the worker is served from memory like the bundle.
+
+const crypto = require('crypto');
+const fs = require('fs');
+const { Compilation, sources } = require('webpack');
+const {
+  MANIFEST_FILE, AUDIO_VARIANTS_FILE, readSource, parseManifest, parseBundles, parseAlternates, parseAudioVariants, readAtlasImage,
+} = require('./asset-manifest');
+
+const PLUGIN_NAME = 'ServiceWorkerPlugin';
+
+function hash(content) {
+  return crypto.createHash('sha1').update(content).digest('hex');
+}
+
+class ServiceWorkerPlugin {
+  /**
+   * @param {object} options
+   * @param {string} options.template    Path of the service worker source
+   * @param {string} [options.filename]  Output name, served from the site root so it controls the whole game
+   * @param {string[]} [options.extraAssets] Paths relative to assets/ loaded outside the manifest (fonts)
+   */
+  constructor({ template, filename = 'service-worker.js', extraAssets = [] }) {
+    this.template = template;
+    this.filename = filename;
+    this.extraAssets = extraAssets;
+  }
+
+  apply(compiler) {
+    compiler.hooks.thisCompilation.tap(PLUGIN_NAME, compilation => {
+      compilation.fileDependencies.add(this.template);
+      compilation.fileDependencies.add(MANIFEST_FILE);
+      compilation.fileDependencies.add(AUDIO_VARIANTS_FILE);
+      // After CopyWebpackPlugin and HtmlWebpackPlugin have added their files
+      compilation.hooks.processAssets.tap({ name: PLUGIN_NAME, stage: Compilation.PROCESS_ASSETS_STAGE_SUMMARIZE }, () => {
+        this.emitServiceWorker(compilation);
+      });
+    });
+  }
+
+  // Manifest paths relative to assets/, in the order the game loads them
+  listAssetPaths(compilation) {
+    const source = readSource(MANIFEST_FILE);
+    const manifest = parseManifest(source);
+    const paths = [];
+    const add = (type, id) => {
+      const assetPath = manifest[type].get(id);
+      if (!assetPath || paths.includes(assetPath)) return;
+      paths.push(assetPath);
+      if (type === 'atlases') {
+        try {
+          paths.push(readAtlasImage(assetPath));
+        } catch (error) {
+          compilation.warnings.push(new Error(`${PLUGIN_NAME}: can't read atlas ${assetPath}: ${error.message}`));
+        }
+      }
+    };
+
+    const typeOf = id => Object.keys(manifest).find(type => manifest[type].has(id));
+    for (const { id } of parseBundles(source)) add(typeOf(id), id);
+    for (const type of Object.keys(manifest)) {
+      for (const id of manifest[type].keys()) add(type, id);
+    }
+    for (const alternate of parseAlternates(source)) {
+      if (!paths.includes(alternate.path)) paths.push(alternate.path);
+    }
+    return [...paths, ...this.extraAssets.filter(extra => !paths.includes(extra))];
+  }
+
+  emitServiceWorker(compilation) {
+    const assetRevisions = {};
+    const optionalAssets = [];
+    const variantPaths = parseAudioVariants().map(variant => variant.path);
+    for (const assetPath of [...this.listAssetPaths(compilation), ...variantPaths]) {
+      const asset = compilation.getAsset(`assets/${assetPath}`);
+      // Missing files are reported by check-assets; the game falls back on them anyway
+      if (!asset || assetRevisions[`assets/${assetPath}`]) continue;
+      assetRevisions[`assets/${assetPath}`] = hash(asset.source.buffer()).slice(0, 10);
+      if (variantPaths.includes(assetPath)) optionalAssets.push(`assets/${assetPath}`);
+    }
+
+    const shellFiles = compilation.getAssets()
+      .map(asset => asset.name)
+      .filter(name => !name.startsWith('assets/') && name !== this.filename && !name.endsWith('.map') && !name.endsWith('.LICENSE.txt'))
+      .sort();
+    const version = hash(compilation.hash + JSON.stringify(assetRevisions)).slice(0, 12);
+
+    const header = [
+      `// Generated by scripts/service-worker-plugin.js from ${this.template.replace(/\\/g, '/').split('/').slice(-2).join('/')}`,
+      `const CACHE_VERSION = ${JSON.stringify(version)};`,
+      `const SHELL_FILES = ${JSON.stringify(shellFiles)};`,
+      `const ASSET_REVISIONS = ${JSON.stringify(assetRevisions, null, 2)};`,
+      `const OPTIONAL_ASSETS = ${JSON.stringify(optionalAssets)};`,
+      '',
+    ].join('\n');
+    const content = header + '\n' + fs.readFileSync(this.template, 'utf8');
+    compilation.emitAsset(this.filename, new sources.RawSource(content));
+  }
+}
+
+module.exports = ServiceWorkerPlugin;
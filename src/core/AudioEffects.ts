@@ -0,0 +1,100 @@
+// src/core/AudioEffects.ts
+import { AudioBus } from './AudioMixer';
+import { CharacterId } from './GameState';
+
+// Buses with an effect chain; master only sums them
+export type EffectBus = Exclude<AudioBus, 'master'>;
+
+export interface BusEffectSettings {
+    lowpassHz: number; // Cutoff of the low-pass filter; 20000 leaves the sound as it is
+    reverb: number; // Send into the shared convolution reverb, 0..1
+    chorus: number; // Wet level of the chorus, 0..1; its modulated delay also detunes the sound a little
+}
+
+export type EffectPreset = { readonly [bus in EffectBus]: BusEffectSettings };
+
+const DRY: BusEffectSettings = { lowpassHz: 20000, reverb: 0, chorus: 0 };
+
+// The GDD: João sounds realistic (a touch of room, nothing else), Nyx ethereal (dulled, washed out, wavering).
+// UI sounds stay clear for both so the interface reads the same.
+export const CHARACTER_AUDIO_PRESETS: { readonly [character in CharacterId]: EffectPreset } = {
+    Joao: {
+        music: { lowpassHz: 20000, reverb: 0.05, chorus: 0 },
+        ambience: { lowpassHz: 20000, reverb: 0.08, chorus: 0 },
+        sfx: { lowpassHz: 20000, reverb: 0.06, chorus: 0 },
+        ui: DRY,
+        voice: { lowpassHz: 20000, reverb: 0.04, chorus: 0 }
+    },
+    Nyx: {
+        music: { lowpassHz: 5000, reverb: 0.45, chorus: 0.3 },
+        ambience: { lowpassHz: 3500, reverb: 0.5, chorus: 0.25 },
+        sfx: { lowpassHz: 6000, reverb: 0.35, chorus: 0.2 },
+        ui: { lowpassHz: 12000, reverb: 0.15, chorus: 0.1 },
+        voice: { lowpassHz: 7000, reverb: 0.4, chorus: 0.3 }
+    }
+};
+
+const CHORUS_DELAY_SECONDS = 0.018;
+const CHORUS_DEPTH_SECONDS = 0.002; // About ±15 cents of detune at the LFO rate below
+const CHORUS_RATE_HZ = 0.8;
+
+/**
+ * Moves an AudioParam to `value`, reaching about 98% of the way after `rampSeconds` (0 = at once).
+ * Starts from wherever the param is now, even in the middle of an earlier ramp.
+ */
+export function rampParam(param: AudioParam, value: number, context: BaseAudioContext, rampSeconds: number): void {
+    const now = context.currentTime;
+    param.cancelScheduledValues(now);
+    param.setValueAtTime(param.value, now);
+    if (rampSeconds > 0) {
+        param.setTargetAtTime(value, now, rampSeconds / 4);
+    } else {
+        param.setValueAtTime(value, now);
+    }
+}
+
+/**
+ * input -> low-pass -> dry ---------------------> output
+ *                   -> chorus (modulated delay) -> output
+ *                   -> reverb send ------------> shared reverb
+ */
+export class BusEffectChain {
+    private lowpass: BiquadFilterNode;
+    private dry: GainNode;
+    private chorusWet: GainNode;
+    private reverbSend: GainNode;
+
+    constructor(private context: BaseAudioContext, input: AudioNode, output: AudioNode, reverb: AudioNode) {
+        this.lowpass = context.createBiquadFilter();
+        this.lowpass.type = 'lowpass';
+        this.lowpass.frequency.value = DRY.lowpassHz;
+        input.connect(this.lowpass);
+
+        this.dry = context.createGain();
+        this.lowpass.connect(this.dry).connect(output);
+
+        const chorusDelay = context.createDelay(0.05);
+        chorusDelay.delayTime.value = CHORUS_DELAY_SECONDS;
+        const chorusLfo = context.createOscillator();
+        chorusLfo.frequency.value = CHORUS_RATE_HZ;
+        const chorusDepth = context.createGain();
+        chorusDepth.gain.value = CHORUS_DEPTH_SECONDS;
+        chorusLfo.connect(chorusDepth).connect(chorusDelay.delayTime);
+        chorusLfo.start();
+        this.chorusWet = context.createGain();
+        this.chorusWet.gain.value = 0;
+        this.lowpass.connect(chorusDelay).connect(this.chorusWet).connect(output);
+
+        this.reverbSend = context.createGain();
+        this.reverbSend.gain.value = 0;
+        this.lowpass.connect(this.reverbSend).connect(reverb);
+    }
+
+    public apply(settings: BusEffectSettings, rampSeconds: number): void {
+        rampParam(this.lowpass.frequency, settings.lowpassHz, this.context, rampSeconds);
+        // Keep the level about the same as the chorus comes in
+        rampParam(this.dry.gain, 1 - settings.chorus * 0.5, this.context, rampSeconds);
+        rampParam(this.chorusWet.gain, settings.chorus, this.context, rampSeconds);
+        rampParam(this.reverbSend.gain, settings.reverb, this.context, rampSeconds);
+    }
+}
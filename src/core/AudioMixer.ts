@@ -0,0 +1,131 @@
+// src/core/AudioMixer.ts
+import * as THREE from 'three';
+import { BusEffectChain, EffectBus, EffectPreset, rampParam } from './AudioEffects';
+
+export const AUDIO_BUSES = ['master', 'music', 'ambience', 'sfx', 'ui', 'voice'] as const;
+export type AudioBus = typeof AUDIO_BUSES[number];
+
+export type BusVolumes = { [bus in AudioBus]: number };
+
+const VOLUME_RAMP_SECONDS = 0.2; // Length of volume changes, so a slider drag doesn't click
+
+/**
+ * One GainNode per bus. Every sound is routed into one of the buses, which all feed 'master',
+ * which feeds the listener. Bus volumes are 0..1 and survive reloads through localStorage.
+ * Each bus but master runs through its own effect chain (see AudioEffects) after its volume;
+ * their reverb sends share one convolver, so there is a single reverb to pay for.
+ */
+export class AudioMixer {
+    private readonly storageKey = 'aion_audio_volumes';
+    private context: AudioContext;
+    private buses: Map<AudioBus, GainNode> = new Map();
+    private effects: Map<EffectBus, BusEffectChain> = new Map();
+    private reverb: ConvolverNode;
+    private volumes: BusVolumes;
+    private muted: boolean = false;
+
+    constructor(listener: THREE.AudioListener) {
+        this.context = listener.context;
+        this.volumes = this.loadVolumes();
+
+        const master = this.createBus('master');
+        master.connect(listener.getInput());
+        // Silent until setImpulseResponse() gives it a buffer
+        this.reverb = this.context.createConvolver();
+        this.reverb.connect(master);
+        for (const bus of AUDIO_BUSES) {
+            if (bus !== 'master') this.effects.set(bus, new BusEffectChain(this.context, this.createBus(bus), master, this.reverb));
+        }
+        console.log('[AudioMixer] Buses ready:', this.volumes);
+    }
+
+    private createBus(bus: AudioBus): GainNode {
+        const gain = this.context.createGain();
+        gain.gain.value = this.getEffectiveGain(bus);
+        this.buses.set(bus, gain);
+        return gain;
+    }
+
+    // Sends a sound's output to a bus instead of straight to the listener, through a gain of `trim`.
+    // The trim is the level the sound is mixed at; unlike volumes it can go above 1 to bring up a quiet file.
+    public route(sound: THREE.Audio, bus: AudioBus, trim: number = 1): void {
+        sound.gain.disconnect();
+        if (trim === 1) {
+            sound.gain.connect(this.getInput(bus));
+            return;
+        }
+        const trimNode = this.context.createGain();
+        trimNode.gain.value = Math.max(0, trim);
+        trimNode.connect(this.getInput(bus));
+        sound.gain.connect(trimNode);
+    }
+
+    public getInput(bus: AudioBus): GainNode {
+        return this.buses.get(bus)!;
+    }
+
+    public setVolume(bus: AudioBus, volume: number): void {
+        this.volumes[bus] = THREE.MathUtils.clamp(volume, 0, 1);
+        this.applyGain(bus);
+        this.saveVolumes();
+    }
+
+    public getVolume(bus: AudioBus): number {
+        return this.volumes[bus];
+    }
+
+    public getVolumes(): BusVolumes {
+        return { ...this.volumes };
+    }
+
+    // Silences master without touching the stored volumes
+    public setMuted(muted: boolean): void {
+        this.muted = muted;
+        this.applyGain('master');
+    }
+
+    public isMuted(): boolean {
+        return this.muted;
+    }
+
+    private getEffectiveGain(bus: AudioBus): number {
+        return bus === 'master' && this.muted ? 0 : this.volumes[bus];
+    }
+
+    private applyGain(bus: AudioBus): void {
+        rampParam(this.getInput(bus).gain, this.getEffectiveGain(bus), this.context, VOLUME_RAMP_SECONDS);
+    }
+
+    public setImpulseResponse(buffer: AudioBuffer): void {
+        this.reverb.buffer = buffer;
+    }
+
+    // Moves every bus' effects to the preset over `rampSeconds`
+    public applyPreset(preset: EffectPreset, rampSeconds: number): void {
+        this.effects.forEach((chain, bus) => chain.apply(preset[bus], rampSeconds));
+    }
+
+    // Anything missing or out of range in storage is left at full volume
+    private loadVolumes(): BusVolumes {
+        const volumes = {} as BusVolumes;
+        let stored: Partial<Record<AudioBus, unknown>> = {};
+        try {
+            stored = JSON.parse(localStorage.getItem(this.storageKey) ?? '{}') ?? {};
+        } catch (error) {
+            console.warn('[AudioMixer] Ignoring unreadable volume settings:', error);
+        }
+        for (const bus of AUDIO_BUSES) {
+            const value = stored[bus];
+            volumes[bus] = typeof value === 'number' && value >= 0 && value <= 1 ? value : 1;
+        }
+        return volumes;
+    }
+
+    private saveVolumes(): void {
+        try {
+            localStorage.setItem(this.storageKey, JSON.stringify(this.volumes));
+        } catch (error) {
+            console.error('[AudioMixer] Failed to save volume settings:', error);
+        }
+    }
+}
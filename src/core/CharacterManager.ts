@@ -0,0 +1,115 @@
+// src/core/CharacterManager.ts
+import { GameState, CharacterId, CharacterState } from './GameState';
+import { SceneManager, SceneChangeStatus, TransitionType } from './SceneManager';
+import { SoundManager } from './SoundManager';
+import { UIManager } from '../ui/UIManager';
+
+// Transition played whenever control is handed from one character to the other
+const CHARACTER_SWITCH_TRANSITION: TransitionType = 'character-swap';
+
+export class CharacterManager {
+    private gameState: GameState;
+    private sceneManager: SceneManager;
+    private soundManager: SoundManager;
+    private uiManager: UIManager;
+    private isSwitching: boolean = false;
+
+    constructor(gameState: GameState, sceneManager: SceneManager, soundManager: SoundManager, uiManager: UIManager) {
+        this.gameState = gameState;
+        this.sceneManager = sceneManager;
+        this.soundManager = soundManager;
+        this.uiManager = uiManager;
+
+        // Any character change (switches, new game, loading a save) reaches every presentation layer
+        this.gameState.onCharacterChanged((character, previous) => this.notifyPresentation(character, previous));
+
+        // Remember where each character was, so switching back resumes there
+        this.sceneManager.onSceneChanged(() => {
+            const character = this.gameState.currentCharacter;
+            if (character && this.gameState.currentSceneId) {
+                this.gameState.characterStates[character].lastSceneId = this.gameState.currentSceneId;
+            }
+        });
+
+        console.log("CharacterManager initialized");
+    }
+
+    public get currentCharacter(): CharacterId | null {
+        return this.gameState.currentCharacter;
+    }
+
+    public getState(character: CharacterId): Readonly<CharacterState> {
+        return this.gameState.characterStates[character];
+    }
+
+    public markNoteSeen(noteId: string): void {
+        const state = this.getCurrentState();
+        if (state && !state.notesSeen.includes(noteId)) {
+            state.notesSeen.push(noteId);
+        }
+    }
+
+    public markFeedSeen(postId: string): void {
+        const state = this.getCurrentState();
+        if (state && !state.feedSeen.includes(postId)) {
+            state.feedSeen.push(postId);
+        }
+    }
+
+    /**
+     * Hands control to another character with the character switch transition.
+     * Goes to `sceneId` if given, otherwise back to where that character last was.
+     * Without either, only the presentation changes and the current scene stays.
+     * The target takes control before the scene change, so the new scene is entered (and autosaved)
+     * as them; on any status but 'completed' control goes back to the previous character, and the
+     * status says why.
+     */
+    public async switchCharacter(target: CharacterId, sceneId?: string): Promise<SceneChangeStatus> {
+        if (this.isSwitching) {
+            console.warn(`[CharacterManager] Already switching character. Request to switch to ${target} ignored.`);
+            return 'rejected';
+        }
+
+        const previous = this.gameState.currentCharacter;
+        const destination = sceneId ?? this.gameState.characterStates[target].lastSceneId;
+        if (previous === target && !sceneId) {
+            console.log(`[CharacterManager] ${target} is already the active character.`);
+            return 'ignored';
+        }
+
+        console.log(`[CharacterManager] Switching from ${previous} to ${target}${destination ? ` at "${destination}"` : ''}`);
+        this.isSwitching = true;
+        this.gameState.setCharacter(target);
+        let status: SceneChangeStatus = 'completed';
+        try {
+            if (destination && destination !== this.gameState.currentSceneId) {
+                status = await this.sceneManager.changeScene(destination, CHARACTER_SWITCH_TRANSITION);
+            }
+        } finally {
+            this.isSwitching = false;
+        }
+
+        if (status !== 'completed') {
+            console.warn(`[CharacterManager] Scene change to "${destination}" ${status}; control goes back to ${previous}.`);
+            this.gameState.setCharacter(previous);
+            return status;
+        }
+        // Covers switches that stay in the current scene; a scene change has recorded it already
+        if (this.gameState.currentSceneId) {
+            this.gameState.characterStates[target].lastSceneId = this.gameState.currentSceneId;
+        }
+        return status;
+    }
+
+    private getCurrentState(): CharacterState | null {
+        const character = this.gameState.currentCharacter;
+        return character ? this.gameState.characterStates[character] : null;
+    }
+
+    private notifyPresentation(character: CharacterId | null, previous: CharacterId | null): void {
+        console.log(`[CharacterManager] Character changed: ${previous} -> ${character}`);
+        this.soundManager.onCharacterChanged(character);
+        this.uiManager.onCharacterChanged(character);
+        this.sceneManager.currentScene?.onCharacterChanged(character);
+    }
+}
@@ -0,0 +1,87 @@
+// src/core/ChoiceLog.ts
+
+// Decision points in the scenes, so later scenes can query them by a stable id
+export const DecisionIds = {
+    streetThought: 'cena2.thought',
+    galleryNextCharacter: 'cena3.next_character'
+} as const;
+
+export interface ChoiceRecord {
+    decisionId: string;
+    option: string;
+    sceneId: string | null;
+    timestamp: number; // Date.now() when the choice was made
+}
+
+export class ChoiceLog {
+    private records: ChoiceRecord[] = [];
+    private choiceListeners: Array<(choice: ChoiceRecord) => void> = [];
+
+    public record(decisionId: string, option: string, sceneId: string | null): ChoiceRecord {
+        const choice: ChoiceRecord = { decisionId, option, sceneId, timestamp: Date.now() };
+        this.records.push(choice);
+        console.log(`[ChoiceLog] "${decisionId}" -> "${option}" (scene: ${sceneId})`);
+
+        for (const listener of this.choiceListeners) {
+            listener(choice);
+        }
+        return choice;
+    }
+
+    // Every choice in the order it was made
+    public getAll(): readonly ChoiceRecord[] {
+        return this.records;
+    }
+
+    // The most recent answer to a decision (decisions can be revisited, e.g. the street loop)
+    public getLatest(decisionId: string): ChoiceRecord | undefined {
+        for (let i = this.records.length - 1; i >= 0; i--) {
+            if (this.records[i].decisionId === decisionId) {
+                return this.records[i];
+            }
+        }
+        return undefined;
+    }
+
+    public getHistory(decisionId: string): ChoiceRecord[] {
+        return this.records.filter(r => r.decisionId === decisionId);
+    }
+
+    public getByScene(sceneId: string): ChoiceRecord[] {
+        return this.records.filter(r => r.sceneId === sceneId);
+    }
+
+    // Whether the decision was ever made, optionally with a specific option
+    public hasChosen(decisionId: string, option?: string): boolean {
+        return this.records.some(r => r.decisionId === decisionId && (option === undefined || r.option === option));
+    }
+
+    // How many times each option of a decision was picked
+    public countOptions(decisionId: string): Map<string, number> {
+        const counts = new Map<string, number>();
+        for (const record of this.getHistory(decisionId)) {
+            counts.set(record.option, (counts.get(record.option) ?? 0) + 1);
+        }
+        return counts;
+    }
+
+    // Returns a function that removes the listener again
+    public onChoice(listener: (choice: ChoiceRecord) => void): () => void {
+        this.choiceListeners.push(listener);
+        return () => {
+            this.choiceListeners = this.choiceListeners.filter(l => l !== listener);
+        };
+    }
+
+    public toSnapshot(): ChoiceRecord[] {
+        return this.records.map(r => ({ ...r }));
+    }
+
+    public restoreSnapshot(records: ChoiceRecord[]): void {
+        this.records = records.map(r => ({ ...r }));
+    }
+
+    public clear(): void {
+        this.records = [];
+    }
+}
@@ -5,10 +5,13 @@ import { UIManager } from '../ui/UIManager'; // Import UIManager
 import { GameState } from './GameState';
 import { AssetLoader } from '../utils/AssetLoader';
 import { SoundManager } from './SoundManager';
+import { SaveManager } from './SaveManager';
+import { CharacterManager } from './CharacterManager';
 import { createGameLoop } from '@wmcmurray/game-loop-js';
 
 const CAMERA_FRUSTUM_SIZE = 8; // Centralized camera frustum size
 const TARGET_FPS = 60;
+const AUTOSAVE_CHECKPOINTS = 5; // Rolling checkpoint history kept by SaveManager
 interface GameLoop {
     loop: () => void;
 }
@@ -27,6 +30,8 @@ export class GameEngine {
     public uiManager: UIManager; // Add UIManager property
     public assetLoader: AssetLoader;
     public soundManager: SoundManager;
+    public saveManager: SaveManager;
+    public characterManager: CharacterManager;
     private gameLoop!: GameLoop; // TODO: Specify a more specific type for gameLoop if possible
     private clock: THREE.Clock;
     private animationFrameId: number | null = null;
@@ -68,7 +73,10 @@ export class GameEngine {
         this.soundManager = new SoundManager(this.camera, this.assetLoader);
         this.gameState = new GameState();
         this.sceneManager = new SceneManager(this.gameState, this);
+        this.saveManager = new SaveManager(this.gameState, this.sceneManager);
+        this.saveManager.enableAutosave(AUTOSAVE_CHECKPOINTS);
         this.uiManager = new UIManager(this); // Instantiate UIManager
+        this.characterManager = new CharacterManager(this.gameState, this.sceneManager, this.soundManager, this.uiManager);
         this.inputManager = new InputManager(this.canvas, this.camera, this.sceneManager, this.assetLoader, this.uiManager, this.soundManager); // Pass uiManager and soundManager
 
         // Set renderer in SceneManager for transitions
@@ -87,27 +95,34 @@ export class GameEngine {
         }
         console.log("GameEngine: Starting...");
 
+        // Report broken scene exits before anyone can walk into them
+        this.sceneManager.validateSceneGraph();
+
         // Set initial scene based on localStorage or default
         const initialSceneName = this.uiManager.getInitialScene();
         const availableScenes = this.sceneManager.getSceneNames();
-
-        if (initialSceneName && availableScenes.includes(initialSceneName)) {
-            console.log(`GameEngine: Setting initial scene from localStorage: ${initialSceneName}`);
-            await this.sceneManager.setScene(initialSceneName); // Set without transition
-        } else if (availableScenes.length > 0) {
-            const defaultScene = availableScenes[0]; // Use the first registered scene as default
-            console.log(`GameEngine: No valid initial scene in localStorage or none set. Setting default scene: ${defaultScene}`);
-            await this.sceneManager.setScene(defaultScene); // Set default without transition
-        } else {
+        if (availableScenes.length === 0) {
             // This case should ideally not happen if scenes are registered before start()
             console.error("GameEngine: No scenes registered! Cannot start.");
-            // Optionally throw an error or prevent starting
             return; // Prevent starting if no scenes
         }
 
+        // Cursor, click and glitch sounds are used everywhere; start on them alongside the first scene
+        this.assetLoader.loadBundle('shared_ui', 'game');
+
+        // Run the loop before the first scene is set, so the loading scene animates while its assets download
         console.log("GameEngine: Starting main loop...");
         this.clock.start();
         this.startGameLoop(); // Start the loop
+
+        if (initialSceneName && availableScenes.includes(initialSceneName)) {
+            console.log(`GameEngine: Setting initial scene from localStorage: ${initialSceneName}`);
+            await this.sceneManager.setScene(initialSceneName); // Set without transition
+        } else {
+            const defaultScene = availableScenes[0]; // Use the first registered scene as default
+            console.log(`GameEngine: No valid initial scene in localStorage or none set. Setting default scene: ${defaultScene}`);
+            await this.sceneManager.setScene(defaultScene); // Set default without transition
+        }
     }
 
     public stop(): void {
@@ -141,14 +156,17 @@ export class GameEngine {
                 // 2. Update InputManager (handles cursor position and click animations)
                 this.inputManager.update();
 
+                // Pan attached sounds to where their objects moved this frame
+                this.soundManager.update();
+
                 // Get scene-specific performance data
                 const scenePerformanceData = currentScene.getPerformanceData();
 
                 // Update UI Manager with performance metrics
                 this.uiManager.update(deltaTime, updateTime, objectCount, scenePerformanceData);
 
-                // 3. Render the scene
-                this.renderer.render(currentScene.threeScene, this.camera);
+                // 3. Render the scene (on top of any scenes paused underneath an overlay)
+                this.sceneManager.renderScenes(this.renderer, this.camera);
             } else {
                 // Optionally clear the screen if no scene is active
                 this.renderer.clear();
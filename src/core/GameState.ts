@@ -1,11 +1,35 @@
 // src/core/GameState.ts
+import { StoryVariables, StoryVariablesSnapshot } from './StoryVariables';
+import { ChoiceLog, ChoiceRecord } from './ChoiceLog';
+
+export type CharacterId = 'Joao' | 'Nyx';
+
+// What each playable character has been through, kept separately so control can be handed back and forth
+export interface CharacterState {
+    lastSceneId: string | null;
+    notesSeen: string[];
+    feedSeen: string[];
+}
+
+// Plain, JSON-safe copy of the state that gets written into save slots
+export interface GameStateSnapshot {
+    currentCharacter: CharacterId | null;
+    currentSceneId: string | null;
+    variables: StoryVariablesSnapshot;
+    choices: ChoiceRecord[];
+    characterStates: { [character in CharacterId]: CharacterState };
+}
+
 export class GameState {
-    public currentCharacter: 'Joao' | 'Nyx' | null = null;
+    public currentCharacter: CharacterId | null = null;
     public currentSceneId: string | null = null;
+    public readonly variables: StoryVariables = new StoryVariables(); // Story flags, counters and strings
+    public readonly choices: ChoiceLog = new ChoiceLog(); // Every decision the player made, in order
+    public characterStates: { [character in CharacterId]: CharacterState } = GameState.createCharacterStates();
+    private characterChangeListeners: Array<(character: CharacterId | null, previous: CharacterId | null) => void> = [];
 
     // Add other relevant game state properties here based on GDD
     // For example:
-    // public inventory: string[] = [];
     // public playerPosition: { x: number, y: number, z: number } = { x: 0, y: 0, z: 0 };
 
     constructor() {
@@ -19,11 +43,68 @@ export class GameState {
         console.log(`GameState: Scene changed to ${sceneId}`);
     }
 
-    public setCharacter(character: 'Joao' | 'Nyx') {
+    public setCharacter(character: CharacterId | null) {
+        const previous = this.currentCharacter;
         this.currentCharacter = character;
         console.log(`GameState: Character set to ${character}`);
+        if (previous !== character) {
+            this.notifyCharacterChanged(previous);
+        }
+    }
+
+    public onCharacterChanged(callback: (character: CharacterId | null, previous: CharacterId | null) => void): void {
+        this.characterChangeListeners.push(callback);
+    }
+
+    private notifyCharacterChanged(previous: CharacterId | null): void {
+        for (const listener of this.characterChangeListeners) {
+            listener(this.currentCharacter, previous);
+        }
+    }
+
+    private static createCharacterStates(): { [character in CharacterId]: CharacterState } {
+        return {
+            Joao: { lastSceneId: null, notesSeen: [], feedSeen: [] },
+            Nyx: { lastSceneId: null, notesSeen: [], feedSeen: [] }
+        };
+    }
+
+    // Records a decision against the scene the player is currently in
+    public recordChoice(decisionId: string, option: string): ChoiceRecord {
+        return this.choices.record(decisionId, option, this.currentSceneId);
+    }
+
+    // Clears everything the player did, for starting a new playthrough
+    public resetStory(): void {
+        this.variables.clear();
+        this.choices.clear();
+        this.characterStates = GameState.createCharacterStates();
+        console.log(`GameState: Story progress reset`);
+    }
+
+    public toSnapshot(): GameStateSnapshot {
+        return {
+            currentCharacter: this.currentCharacter,
+            currentSceneId: this.currentSceneId,
+            variables: this.variables.toSnapshot(),
+            choices: this.choices.toSnapshot(),
+            characterStates: JSON.parse(JSON.stringify(this.characterStates))
+        };
+    }
+
+    public restoreSnapshot(snapshot: GameStateSnapshot): void {
+        const previousCharacter = this.currentCharacter;
+        this.currentCharacter = snapshot.currentCharacter;
+        this.currentSceneId = snapshot.currentSceneId;
+        this.variables.restoreSnapshot(snapshot.variables);
+        this.choices.restoreSnapshot(snapshot.choices);
+        this.characterStates = JSON.parse(JSON.stringify(snapshot.characterStates));
+        if (previousCharacter !== this.currentCharacter) {
+            this.notifyCharacterChanged(previousCharacter);
+        }
+        console.log(`GameState: Restored snapshot (scene: ${snapshot.currentSceneId}, character: ${snapshot.currentCharacter})`);
     }
 }
 
 // Optional: Singleton pattern if preferred
-// export const gameState = new GameState();
\ No newline at end of file
+// export const gameState = new GameState();
@@ -47,7 +47,7 @@ export class InputManager {
             this.updateCursorPosition();
         });
         // Load the click sound
-        this.soundManager.loadSound('ui_click', 'assets/sounds/click.mp3').catch(error => {
+        this.soundManager.loadSound('ui_click', 'ui.click', false, 'ui').catch(error => {
             console.error("InputManager: Failed to load click sound:", error);
         });
         console.log("//SYS/INIT: InputManager operational. Modules loaded: Camera, SceneManager, AssetLoader, UIManager, SoundManager.");
@@ -194,10 +194,23 @@ export class InputManager {
         if (event.key.toLowerCase() === 'p') {
             console.log("//INPUT/KEY: 'P' key engaged. Debug overlay status toggle initiated.");
             this.uiManager.toggleDebugOverlay();
+        } else if (event.key === 'Escape') {
+            this.togglePauseMenu();
         }
         // Notify relevant systems if needed for other keys
     }
 
+    // Pushes the pause overlay over the running scene, or pops it if it is already open
+    private togglePauseMenu(): void {
+        const currentSceneId = this.sceneManager.currentSceneId;
+        if (currentSceneId === 'pause_menu') {
+            this.sceneManager.popScene();
+        } else if (currentSceneId && currentSceneId !== 'start_menu') {
+            console.log("//INPUT/KEY: 'Escape' engaged. Pause overlay requested.");
+            this.sceneManager.pushScene('pause_menu');
+        }
+    }
+
     // Example handler for keyup
     // private handleKeyUp(event: KeyboardEvent): void {
     //     console.log(`InputManager: Key up - ${event.key}`);
@@ -231,7 +244,7 @@ export class InputManager {
 
     private async loadCursorTexture(): Promise<void> {
         try {
-            const texture = await this.assetLoader.loadTexture('assets/cursor/cursor_normal.png');
+            const texture = await this.assetLoader.loadTexture('ui.cursor');
             this.cursorTexture = texture;
 
             this.cursorMaterial = new THREE.MeshPhongMaterial({
@@ -252,6 +265,7 @@ export class InputManager {
             );
             this.cursorMesh.renderOrder = 1000; // Ensure it renders on top
             this.cursorMesh.userData.isCustomCursor = true; // Mark as cursor
+            this.cursorMesh.userData.sharedAcrossScenes = true; // Follows the current scene; never disposed with one
             this.cursorMesh.layers.set(1); // Put cursor on layer 1
 
             // Add cursor to the scene when the scene is ready
@@ -451,7 +465,7 @@ export class InputManager {
         }
 
         const image = texture.image;
-        const textureKey = texture.uuid; // Use texture UUID as cache key
+        const textureKey = texture.source.uuid; // Keyed by image, so all frames of an atlas share one canvas
 
         let cacheEntry = this.textureCanvasCache.get(textureKey);
 
@@ -477,9 +491,11 @@ export class InputManager {
 
         const { context, canvas } = cacheEntry;
 
+        // Atlas frames and mirrored sprites only show part of the image: apply the texture's repeat/offset
+        const u = texture.offset.x + uv.x * texture.repeat.x;
+        const mappedV = texture.offset.y + uv.y * texture.repeat.y;
         // Flip UV y-coordinate if texture is flipped
-        const u = uv.x;
-        const v = texture.flipY ? 1 - uv.y : uv.y; // Adjust v based on texture.flipY
+        const v = texture.flipY ? 1 - mappedV : mappedV; // Adjust v based on texture.flipY
 
         // Clamp UV coordinates to [0, 1] range
         const clampedU = Math.max(0, Math.min(1, u));
@@ -0,0 +1,277 @@
+// src/core/SaveManager.ts
+import { GameState, GameStateSnapshot } from './GameState';
+import { SceneManager, SceneChangeStatus, TransitionType } from './SceneManager';
+
+// Bump this whenever GameStateSnapshot changes shape, and register a migration
+// from the previous version in SaveManager.migrations.
+export const SAVE_SCHEMA_VERSION = 4;
+
+export interface SaveData {
+    version: number;
+    slot: string;
+    savedAt: number; // Date.now() at the time of saving
+    state: GameStateSnapshot;
+}
+
+export interface SaveSlotInfo {
+    slot: string;
+    savedAt: number;
+    sceneId: string | null;
+    version: number;
+}
+
+// Upgrades raw save data from version N to version N + 1
+type SaveMigration = (data: Record<string, unknown>) => Record<string, unknown>;
+
+export class SaveManager {
+    private readonly storagePrefix = 'aion_save_';
+    private readonly checkpointStorageKey = 'aion_checkpoints';
+    private gameState: GameState;
+    private sceneManager: SceneManager;
+    private maxCheckpoints: number = 0; // 0 = autosave disabled
+    private autosaveExcludedScenes: Set<string> = new Set(['start_menu']);
+    private isRestoring: boolean = false;
+
+    // Keyed by the version the migration upgrades *from*
+    private readonly migrations: Map<number, SaveMigration> = new Map<number, SaveMigration>([
+        // v2: story flags/counters/strings were added to the snapshot
+        [1, (data) => {
+            const state = data.state as Record<string, unknown>;
+            return { ...data, state: { ...state, variables: { flags: {}, counters: {}, strings: {} } } };
+        }],
+        // v3: the choice log was added to the snapshot
+        [2, (data) => {
+            const state = data.state as Record<string, unknown>;
+            return { ...data, state: { ...state, choices: [] } };
+        }],
+        // v4: per-character state was added; earlier saves were always played as João
+        [3, (data) => {
+            const state = data.state as Record<string, unknown>;
+            return {
+                ...data,
+                state: {
+                    ...state,
+                    characterStates: {
+                        Joao: { lastSceneId: state.currentSceneId ?? null, notesSeen: [], feedSeen: [] },
+                        Nyx: { lastSceneId: null, notesSeen: [], feedSeen: [] }
+                    }
+                }
+            };
+        }]
+    ]);
+
+    constructor(gameState: GameState, sceneManager: SceneManager) {
+        this.gameState = gameState;
+        this.sceneManager = sceneManager;
+        console.log("SaveManager initialized");
+    }
+
+    public save(slot: string): boolean {
+        const data: SaveData = {
+            version: SAVE_SCHEMA_VERSION,
+            slot,
+            savedAt: Date.now(),
+            state: this.gameState.toSnapshot()
+        };
+
+        try {
+            localStorage.setItem(this.storagePrefix + slot, JSON.stringify(data));
+            console.log(`[SaveManager] Saved slot "${slot}" at scene "${data.state.currentSceneId}"`);
+            return true;
+        } catch (error) {
+            console.error(`[SaveManager] Failed to write slot "${slot}":`, error);
+            return false;
+        }
+    }
+
+    public async load(slot: string): Promise<boolean> {
+        const data = this.read(slot);
+        if (!data) {
+            console.warn(`[SaveManager] Slot "${slot}" is empty or unreadable.`);
+            return false;
+        }
+
+        const restored = await this.restore(data);
+        if (restored) {
+            console.log(`[SaveManager] Loaded slot "${slot}"`);
+        }
+        return restored;
+    }
+
+    // Writes a checkpoint every time a scene is entered, keeping the newest `maxCheckpoints`
+    public enableAutosave(maxCheckpoints: number): void {
+        const alreadyListening = this.maxCheckpoints > 0;
+        this.maxCheckpoints = Math.max(1, maxCheckpoints);
+        if (alreadyListening) return;
+
+        this.sceneManager.onSceneChanged(() => {
+            const sceneId = this.gameState.currentSceneId;
+            if (this.isRestoring || !sceneId || this.autosaveExcludedScenes.has(sceneId) || sceneId === this.sceneManager.fallbackSceneId) {
+                return;
+            }
+            this.writeCheckpoint();
+        });
+        console.log(`[SaveManager] Autosave enabled (keeping ${this.maxCheckpoints} checkpoints)`);
+    }
+
+    public getCheckpoints(): SaveData[] {
+        const raw = localStorage.getItem(this.checkpointStorageKey);
+        if (!raw) return [];
+
+        let entries: unknown;
+        try {
+            entries = JSON.parse(raw);
+        } catch (error) {
+            console.error(`[SaveManager] Checkpoint history contains invalid JSON:`, error);
+            return [];
+        }
+        if (!Array.isArray(entries)) return [];
+
+        const checkpoints: SaveData[] = [];
+        for (const entry of entries) {
+            const data = this.migrate(entry, 'checkpoint');
+            if (data) checkpoints.push(data);
+        }
+        return checkpoints;
+    }
+
+    public hasCheckpoint(): boolean {
+        return this.getCheckpoints().length > 0;
+    }
+
+    // Resumes from the newest checkpoint with a regular scene transition
+    public async continueFromLatestCheckpoint(transitionType: TransitionType = 'fade'): Promise<boolean> {
+        const latest = this.getCheckpoints()[0];
+        if (!latest) {
+            console.warn(`[SaveManager] No checkpoint to continue from.`);
+            return false;
+        }
+
+        const restored = await this.restore(latest, transitionType);
+        if (restored) {
+            console.log(`[SaveManager] Continued from checkpoint at scene "${latest.state.currentSceneId}"`);
+        }
+        return restored;
+    }
+
+    public hasSave(slot: string): boolean {
+        return localStorage.getItem(this.storagePrefix + slot) !== null;
+    }
+
+    public deleteSave(slot: string): void {
+        localStorage.removeItem(this.storagePrefix + slot);
+        console.log(`[SaveManager] Deleted slot "${slot}"`);
+    }
+
+    public listSlots(): SaveSlotInfo[] {
+        const slots: SaveSlotInfo[] = [];
+        for (let i = 0; i < localStorage.length; i++) {
+            const key = localStorage.key(i);
+            if (!key || !key.startsWith(this.storagePrefix)) continue;
+
+            const data = this.read(key.substring(this.storagePrefix.length));
+            if (data) {
+                slots.push({
+                    slot: data.slot,
+                    savedAt: data.savedAt,
+                    sceneId: data.state.currentSceneId,
+                    version: data.version
+                });
+            }
+        }
+        return slots.sort((a, b) => b.savedAt - a.savedAt);
+    }
+
+    private writeCheckpoint(): void {
+        const data: SaveData = {
+            version: SAVE_SCHEMA_VERSION,
+            slot: 'checkpoint',
+            savedAt: Date.now(),
+            state: this.gameState.toSnapshot()
+        };
+        const checkpoints = [data, ...this.getCheckpoints()].slice(0, this.maxCheckpoints);
+
+        try {
+            localStorage.setItem(this.checkpointStorageKey, JSON.stringify(checkpoints));
+            console.log(`[SaveManager] Checkpoint written at scene "${data.state.currentSceneId}" (${checkpoints.length}/${this.maxCheckpoints})`);
+        } catch (error) {
+            console.error(`[SaveManager] Failed to write checkpoint:`, error);
+        }
+    }
+
+    // Applies save data to GameState and enters its scene, directly or through a transition. The data is
+    // applied first so the scene is entered with it; if the scene change doesn't happen (rejected, ignored,
+    // failed before the switch...), GameState goes back to what it was so it keeps matching the scene on screen.
+    private async restore(data: SaveData, transitionType?: TransitionType): Promise<boolean> {
+        const sceneId = data.state.currentSceneId;
+        if (!sceneId || !this.sceneManager.getSceneNames().includes(sceneId)) {
+            console.error(`[SaveManager] Save data points to unknown scene "${sceneId}".`);
+            return false;
+        }
+
+        const previousState = this.gameState.toSnapshot();
+        const previousScene = this.sceneManager.currentScene;
+        this.gameState.restoreSnapshot(data.state);
+
+        this.isRestoring = true;
+        let status: SceneChangeStatus = 'completed';
+        try {
+            if (transitionType) {
+                status = await this.sceneManager.changeScene(sceneId, transitionType);
+            } else {
+                await this.sceneManager.setScene(sceneId);
+            }
+        } catch (error) {
+            console.error(`[SaveManager] Entering scene "${sceneId}" failed:`, error);
+            status = 'failed';
+        } finally {
+            this.isRestoring = false;
+        }
+
+        // A change that fails during the transition in has still switched the scene, so the data stays
+        if (status !== 'completed' && this.sceneManager.currentScene === previousScene) {
+            console.warn(`[SaveManager] Scene change to "${sceneId}" ${status}; save data not applied.`);
+            this.gameState.restoreSnapshot(previousState);
+            return false;
+        }
+        return true;
+    }
+
+    private read(slot: string): SaveData | null {
+        const raw = localStorage.getItem(this.storagePrefix + slot);
+        if (!raw) return null;
+
+        try {
+            return this.migrate(JSON.parse(raw), `slot "${slot}"`);
+        } catch (error) {
+            console.error(`[SaveManager] Slot "${slot}" contains invalid JSON:`, error);
+            return null;
+        }
+    }
+
+    // Runs raw save data through every migration up to the current schema version
+    private migrate(raw: unknown, label: string): SaveData | null {
+        if (!raw || typeof raw !== 'object') return null;
+        let data = raw as Record<string, unknown>;
+
+        let version = typeof data.version === 'number' ? data.version : 0;
+        if (version > SAVE_SCHEMA_VERSION) {
+            console.error(`[SaveManager] ${label} was written by a newer build (v${version} > v${SAVE_SCHEMA_VERSION}).`);
+            return null;
+        }
+
+        while (version < SAVE_SCHEMA_VERSION) {
+            const migrate = this.migrations.get(version);
+            if (!migrate) {
+                console.error(`[SaveManager] No migration from v${version} for ${label}.`);
+                return null;
+            }
+            data = migrate(data);
+            version++;
+            data.version = version;
+            console.log(`[SaveManager] Migrated ${label} to v${version}`);
+        }
+
+        return data as unknown as SaveData;
+    }
+}
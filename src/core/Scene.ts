@@ -2,10 +2,39 @@
 import * as THREE from 'three';
 
 import { GameEngine } from './GameEngine'; // Import GameEngine
+import { CharacterId } from './GameState';
+import { ScenePayload } from './ScenePayloads';
+import { AudioId, BundleName } from '../utils/AssetManifest';
+import { BackgroundSound } from './SoundManager';
+import { AudioBus } from './AudioMixer';
+
+// What happens to a scene's state when it is entered again after leaving it:
+// 'persist' keeps it as it was, 'reset' calls reset() before onEnter,
+// 'dispose' frees the scene when it is left so the next visit starts from a fresh instance
+export type SceneReentryPolicy = 'persist' | 'reset' | 'dispose';
+
+// A loop that plays while the scene is current; the audio id belongs in one of the scene's bundles
+export interface SceneBackgroundSound extends BackgroundSound {
+    audio: AudioId;
+    bus?: AudioBus; // 'ambience' unless given
+    trim?: number; // See SoundOptions; scenes sharing a loop must give it the same trim
+}
 
 export abstract class Scene {
     public threeScene: THREE.Scene; // Made public for direct access
     protected gameEngine: GameEngine; // Store reference to GameEngine
+    // Declared on the class so SceneManager can read them before constructing the scene:
+    // Scene ids this scene can transition to; validated at startup and preloaded while it plays
+    public static readonly exits: readonly string[] = [];
+    // Pushed on top of other scenes with pushScene() rather than reached through an exit
+    public static readonly isOverlay: boolean = false;
+    // Asset bundles loaded before init() runs
+    public static readonly bundles: readonly BundleName[] = [];
+    // Loaded with the bundles and faded in and out by SceneManager along with the transition.
+    // Loops of the same name in two scenes keep playing from one to the other.
+    public static readonly backgroundSounds: readonly SceneBackgroundSound[] = [];
+
+    public readonly reentryPolicy: SceneReentryPolicy = 'persist';
     // public camera: THREE.Camera; // Removed - Use GameEngine's camera
 
     constructor(gameEngine: GameEngine) { // Removed camera parameter
@@ -15,9 +44,22 @@ export abstract class Scene {
         console.log(`Base Scene created`);
     }
 
+    // Lifecycle: init (first entry, or after dispose) -> [reset (re-entry)] -> onEnter -> onExit -> [dispose]
+
     // Called once when the scene is set as the current scene
     abstract init(): void;
 
+    // Puts the scene back in its initial state before it is entered again (reentryPolicy 'reset')
+    async reset(): Promise<void> {
+        // Default empty implementation
+    }
+
+    // Releases what the scene holds outside its threeScene and clears references to its objects.
+    // SceneManager frees the geometries, materials and textures in threeScene afterwards.
+    dispose(): void {
+        // Default empty implementation
+    }
+
     // Called every frame
     abstract update(deltaTime: number): void;
 
@@ -32,14 +74,30 @@ export abstract class Scene {
         // Default empty implementation
     }
 
+    // Called on the active scene when the playable character changes (optional)
+    onCharacterChanged(_character: CharacterId | null): void { // eslint-disable-line @typescript-eslint/no-unused-vars
+        // Default empty implementation
+    }
+
     // Method to get performance data (to be implemented by subclasses)
     getPerformanceData(): { [key: string]: number } {
         return {}; // Default empty implementation
     }
 
     // Methods for handling scene activation/deactivation
-    abstract onEnter(): Promise<void>;
-    abstract onExit(): Promise<void>;
+    // onExit may return data for the next scene, which receives it merged into its onEnter payload
+    abstract onEnter(payload?: ScenePayload): Promise<void>;
+    abstract onExit(): Promise<ScenePayload | void>;
+
+    // Called when an overlay is pushed on top of this scene / popped off again (optional)
+    onPause(): void {
+        // Default empty implementation
+    }
+
+    // Receives what the popped overlay returned from its onExit
+    onResume(_payload?: ScenePayload): void { // eslint-disable-line @typescript-eslint/no-unused-vars
+        // Default empty implementation
+    }
 
     protected createBackground(texture: THREE.Texture): THREE.Sprite {
         const backgroundMaterial = new THREE.SpriteMaterial({ map: texture });
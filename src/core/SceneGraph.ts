@@ -0,0 +1,98 @@
+// src/core/SceneGraph.ts
+
+export interface SceneEdge {
+    from: string;
+    to: string;
+}
+
+export interface SceneGraphReport {
+    entrySceneId: string | null;
+    missingTargets: SceneEdge[];   // Exits pointing at scenes that were never registered
+    unreachableScenes: string[];   // Registered scenes no path from the entry scene leads to
+    isValid: boolean;
+}
+
+/**
+ * Which scene can transition to which, as declared by each scene's `exits`.
+ * Overlays are reachable from anywhere (they are pushed, not transitioned to), so their exits
+ * count as reachable too.
+ */
+export class SceneGraph {
+    private edges: Map<string, Set<string>> = new Map();
+    private overlays: Set<string> = new Set();
+    private sceneIds: string[] = []; // Registration order; the first non-overlay scene is the entry
+
+    public addScene(sceneId: string, exits: readonly string[], isOverlay: boolean = false): void {
+        if (!this.sceneIds.includes(sceneId)) {
+            this.sceneIds.push(sceneId);
+        }
+        this.edges.set(sceneId, new Set(exits));
+        if (isOverlay) {
+            this.overlays.add(sceneId);
+        } else {
+            this.overlays.delete(sceneId);
+        }
+    }
+
+    // For transitions decided outside the scene itself
+    public addEdge(from: string, to: string): void {
+        if (!this.edges.has(from)) {
+            this.edges.set(from, new Set());
+        }
+        this.edges.get(from)!.add(to);
+    }
+
+    public getExits(sceneId: string): string[] {
+        return Array.from(this.edges.get(sceneId) ?? []);
+    }
+
+    public hasEdge(from: string, to: string): boolean {
+        return this.edges.get(from)?.has(to) ?? false;
+    }
+
+    public isOverlay(sceneId: string): boolean {
+        return this.overlays.has(sceneId);
+    }
+
+    /**
+     * Checks every exit against the registered scenes and walks the graph from the entry scene.
+     * `excluded` scenes (e.g. the fallback scene) are never reported as unreachable.
+     */
+    public validate(entrySceneId: string | null = null, excluded: readonly string[] = []): SceneGraphReport {
+        const registered = new Set(this.sceneIds);
+        const entry = entrySceneId ?? this.sceneIds.find(id => !this.overlays.has(id)) ?? null;
+
+        const missingTargets: SceneEdge[] = [];
+        for (const [from, targets] of this.edges) {
+            for (const to of targets) {
+                if (!registered.has(to)) {
+                    missingTargets.push({ from, to });
+                }
+            }
+        }
+
+        const reached = new Set<string>();
+        const queue: string[] = [];
+        const visit = (sceneId: string) => {
+            if (!reached.has(sceneId)) {
+                reached.add(sceneId);
+                queue.push(sceneId);
+            }
+        };
+        if (entry) visit(entry);
+        this.overlays.forEach(visit);
+        while (queue.length > 0) {
+            const sceneId = queue.shift()!;
+            this.edges.get(sceneId)?.forEach(visit);
+        }
+
+        const unreachableScenes = this.sceneIds.filter(id => !reached.has(id) && !excluded.includes(id));
+
+        return {
+            entrySceneId: entry,
+            missingTargets,
+            unreachableScenes,
+            isValid: missingTargets.length === 0 && unreachableScenes.length === 0
+        };
+    }
+}
@@ -1,31 +1,111 @@
 // src/core/SceneManager.ts
 import * as THREE from 'three';
-import { Scene } from './Scene';
+import { Scene, SceneBackgroundSound } from './Scene';
 import { GameEngine } from './GameEngine';
 import { GameState } from './GameState';
-import { Easing } from '../utils/Easing';
+import { Transition, TransitionContext } from '../transitions/Transition';
+import { TransitionRegistry } from '../transitions/TransitionRegistry';
+import { SceneGraph, SceneGraphReport } from './SceneGraph';
+import { ScenePayload, PayloadFor } from './ScenePayloads';
+import { ResourceDisposer } from '../utils/ResourceDisposer';
+import { AssetLoader, AssetLoadProgress } from '../utils/AssetLoader';
+import { BundleName } from '../utils/AssetManifest';
+
+// Name of a transition in the registry. The built-in ones are listed so they autocomplete.
+export type TransitionType =
+    | 'fade'
+    | 'glitch'
+    | 'wipe-left'
+    | 'wipe-right'
+    | 'wipe-up'
+    | 'wipe-down'
+    | 'pixel-dissolve'
+    | 'rain-smear'
+    | 'character-swap'
+    | (string & Record<never, never>);
+
+// What changeScene does with a request that arrives while another transition is running
+export type SceneChangePolicy = 'replace' | 'enqueue' | 'reject';
+
+export type SceneChangeStatus =
+    | 'completed'  // Transition ran and the scene was entered
+    | 'rejected'   // Refused because another transition was running (policy 'reject')
+    | 'replaced'   // Was waiting in the queue and got superseded by a newer request
+    | 'ignored'    // Same target as the running or pending transition
+    | 'cancelled'  // Its SceneChangeToken was cancelled before the transition started
+    | 'failed';    // Transition threw; see console
+
+export interface SceneChangeOptions<K extends string = string> {
+    policy?: SceneChangePolicy;
+    token?: SceneChangeToken;
+    payload?: PayloadFor<K>; // Handed to the new scene's onEnter
+}
+
+// Lets the requester abort a queued or delayed scene change before the transition starts
+export class SceneChangeToken {
+    private _isCancelled: boolean = false;
+    private cancelListeners: Array<() => void> = [];
+
+    public get isCancelled(): boolean {
+        return this._isCancelled;
+    }
+
+    public cancel(): void {
+        if (this._isCancelled) return;
+        this._isCancelled = true;
+        this.cancelListeners.forEach(listener => listener());
+        this.cancelListeners = [];
+    }
+
+    public onCancel(listener: () => void): void {
+        if (this._isCancelled) {
+            listener();
+        } else {
+            this.cancelListeners.push(listener);
+        }
+    }
+}
+
+interface SceneChangeRequest {
+    sceneId: string;
+    transitionType: TransitionType;
+    delayTime: number;
+    token?: SceneChangeToken;
+    payload?: ScenePayload;
+    resolve: (status: SceneChangeStatus) => void;
+}
 
-function delay(ms: number) {
-    return new Promise(resolve => setTimeout(resolve, ms));
+// A registered scene class; SceneManager only constructs it the first time it is needed
+export interface SceneClass {
+    new (gameEngine: GameEngine, assetLoader: AssetLoader, sceneManager: SceneManager): Scene;
+    readonly exits: readonly string[];
+    readonly isOverlay: boolean;
+    readonly bundles: readonly BundleName[];
+    readonly backgroundSounds: readonly SceneBackgroundSound[];
 }
 
-export type TransitionType = 'fade' | 'glitch';
 export class SceneManager {
-    private scenes: Map<string, Scene>;
+    private sceneClasses: Map<string, SceneClass> = new Map();
+    private scenes: Map<string, Scene>; // Instances constructed so far
     private _currentScene: Scene | null;
     public gameEngine: GameEngine; // Reference to the main GameEngine
     private gameState: GameState;
     private sceneChangeListeners: Array<(scene: Scene | null) => void> = [];
-    private fadeOverlay: THREE.Mesh | null = null;
+    private transitionOverlay: THREE.Mesh | null = null;
     private renderer: THREE.WebGLRenderer | null = null;
-    private glitchMaterial: THREE.ShaderMaterial | null = null;
-    private fadeMaterial: THREE.MeshBasicMaterial | null = null;
+    public readonly transitions: TransitionRegistry = new TransitionRegistry();
+    public readonly sceneGraph: SceneGraph = new SceneGraph(); // Declared exits of every scene
+    private fallbackSceneName: string | null = null;
+    private loadingSceneName: string | null = null;
+    private activeLoadingScene: Scene | null = null; // Shown in place of the current scene while its assets load
     private isTransitioning: boolean = false;
+    private activeRequest: SceneChangeRequest | null = null; // Delayed or transitioning
+    private pendingRequests: SceneChangeRequest[] = [];
+    private defaultChangePolicy: SceneChangePolicy = 'replace';
     private initializedScenes: Set<string> = new Set();
-
-    private glitchSounds: string[] = [];
-    private glitchSoundLoaded: boolean = false;
-    private lastGlitchSoundIndex: number = -1;
+    private currentSceneName: string | null = null;
+    // Scenes paused underneath overlays pushed with pushScene(), bottom first
+    private sceneStack: Array<{ name: string, scene: Scene }> = [];
 
     constructor(gameState: GameState, gameEngine: GameEngine) {
         this.scenes = new Map<string, Scene>();
@@ -35,51 +115,42 @@ export class SceneManager {
         this.isTransitioning = false;
         console.log("SceneManager initialized");
 
-        // Load all glitch sounds if SoundManager is available
-        if (this.gameEngine.soundManager) {
-            const soundFiles = [
-                'sounds/glitch_1.mp3',
-                'sounds/glitch_2.mp3',
-                'sounds/glitch_3.mp3',
-                'sounds/glitch_4.mp3',
-                'sounds/glitch_5.mp3',
-                'sounds/glitch_6.mp3',
-                'sounds/glitch_7.mp3',
-                'sounds/glitch_8.mp3',
-                'sounds/glitch_9.mp3',
-                'sounds/glitch_10.mp3'
-            ];
-
-            const loadPromises = soundFiles.map((file, index) => {
-                return this.gameEngine.soundManager.loadSound(
-                    `glitch_${index}`,
-                    file
-                ).then(() => {
-                    this.glitchSounds.push(`glitch_${index}`);
-                    return true;
-                }).catch(error => {
-                    console.error(`Failed to load glitch sound ${file}:`, error);
-                    return false;
-                });
-            });
-
-            Promise.all(loadPromises).then(results => {
-                if (results.some(r => r)) {
-                    this.glitchSoundLoaded = true;
-                }
-            });
-        }
+        // Each transition brings its own sound cues; load them as transitions get registered
+        this.transitions.onRegister(transition => this.loadTransitionSounds(transition));
+        this.transitions.registerDefaults();
     }
 
     public setRenderer(renderer: THREE.WebGLRenderer): void {
         this.renderer = renderer;
-        this.createFadeOverlay();
-        this.createGlitchMaterial();
+        this.createTransitionOverlay();
     }
 
-    private createFadeOverlay(): void {
+    // Draws the current scene on top of any scenes paused underneath it
+    public renderScenes(renderer: THREE.WebGLRenderer, camera: THREE.Camera): void {
+        if (this.activeLoadingScene) {
+            renderer.render(this.activeLoadingScene.threeScene, camera);
+            return;
+        }
+        if (!this._currentScene) return;
+
+        if (this.sceneStack.length > 0) {
+            renderer.autoClear = false;
+            renderer.clear();
+            for (const entry of this.sceneStack) {
+                renderer.render(entry.scene.threeScene, camera);
+                renderer.clearDepth();
+            }
+            renderer.render(this._currentScene.threeScene, camera);
+            renderer.autoClear = true;
+        } else {
+            renderer.render(this._currentScene.threeScene, camera);
+        }
+    }
+
+    // Full-screen plane the running transition draws its material on
+    private createTransitionOverlay(): void {
         if (!this.renderer || !this.gameEngine || !this.gameEngine.camera) {
-            console.error("SceneManager: Cannot create fade overlay without renderer, gameEngine, or camera.");
+            console.error("SceneManager: Cannot create transition overlay without renderer, gameEngine, or camera.");
             return;
         }
         const camera = this.gameEngine.camera;
@@ -103,384 +174,622 @@ export class SceneManager {
         }
 
         // Create overlay geometry with calculated size
+        // Each transition swaps in its own material while it runs
         const geometry = new THREE.PlaneGeometry(width, height);
-        this.fadeMaterial = new THREE.MeshBasicMaterial({
-            color: 0x000000,
-            transparent: true,
-            opacity: 0,
-            depthTest: false
-        });
-        const material = this.fadeMaterial; // Start with fade material
-        this.fadeOverlay = new THREE.Mesh(geometry, material);
-        this.fadeOverlay.renderOrder = 999;
-        this.fadeOverlay.frustumCulled = false;
+        this.transitionOverlay = new THREE.Mesh(geometry);
+        this.transitionOverlay.renderOrder = 999;
+        this.transitionOverlay.userData.sharedAcrossScenes = true; // Moves between scenes; never disposed with one
+        this.transitionOverlay.frustumCulled = false;
 
         // Position the overlay relative to the camera
         // Place it at the calculated distance along the camera's look direction
-        this.fadeOverlay.position.copy(camera.position);
+        this.transitionOverlay.position.copy(camera.position);
         const lookDirection = new THREE.Vector3();
         camera.getWorldDirection(lookDirection);
-        this.fadeOverlay.position.addScaledVector(lookDirection, distance);
+        this.transitionOverlay.position.addScaledVector(lookDirection, distance);
         // Make the overlay look at the camera's position
-        this.fadeOverlay.lookAt(camera.position);
+        this.transitionOverlay.lookAt(camera.position);
     }
 
-    private createGlitchMaterial(): void {
-        this.glitchMaterial = new THREE.ShaderMaterial({
-            uniforms: {
-                time: { value: 0.0 },
-                intensity: { value: 0.0 },
-                tDiffuse: { value: null } // Will be set dynamically
-            },
-            vertexShader: `
-              varying vec2 vUv;
-              void main() {
-                vUv = uv;
-                gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
-              }
-            `,
-            fragmentShader: `
-              uniform float time;
-              uniform float intensity;
-              uniform sampler2D tDiffuse;
-              varying vec2 vUv;
-
-              float rand(vec2 co){
-                return fract(sin(dot(co.xy ,vec2(12.9898,78.233))) * 43758.5453);
-              }
-
-              void main() {
-                vec2 uv = vUv;
-                float glitchTime = mod(time * 0.5 + intensity * 5.0, 2.0);
-                float displacement = intensity * (rand(vec2(glitchTime)) - 0.5) * 0.1;
-                float colorShift = intensity * (rand(vec2(glitchTime + 0.1)) - 0.5) * 0.05;
-
-                if (rand(vec2(floor(glitchTime * 10.0))) > 0.85) {
-                    uv.x += displacement;
-                }
+    // Add a listener for scene changes
+    public onSceneChanged(callback: (scene: Scene | null) => void): void {
+        this.sceneChangeListeners.push(callback);
+    }
 
-                vec4 color = texture2D(tDiffuse, uv);
+    // Registers a scene without constructing it; that happens when it is first entered.
+    // Re-registering a name disposes the instance built from the old class (refused while it is on screen).
+    public registerScene(name: string, sceneClass: SceneClass): boolean {
+        if (this.sceneClasses.has(name)) {
+            const existing = this.scenes.get(name);
+            if (existing && this.isOnScreen(existing)) {
+                console.warn(`SceneManager: Cannot overwrite scene "${name}" while it is on screen.`);
+                return false;
+            }
+            console.warn(`SceneManager: Scene with name "${name}" already exists. Overwriting.`);
+            this.disposeScene(name);
+            this.scenes.delete(name);
+        }
+        this.sceneClasses.set(name, sceneClass);
+        this.sceneGraph.addScene(name, sceneClass.exits, sceneClass.isOverlay);
+        console.log(`SceneManager: Scene "${name}" registered.`);
+        return true;
+    }
 
-                if (rand(vec2(floor(glitchTime * 15.0))) > 0.9) {
-                    color.r = texture2D(tDiffuse, uv + vec2(colorShift, 0.0)).r;
-                    color.g = texture2D(tDiffuse, uv - vec2(colorShift, 0.0)).g;
-                }
+    // Registers an already constructed scene
+    public addScene(name: string, scene: Scene): void {
+        if (!this.registerScene(name, scene.constructor as SceneClass)) return;
+        this.scenes.set(name, scene);
+    }
+
+    public hasScene(name: string): boolean {
+        return this.sceneClasses.has(name);
+    }
+
+    private getOrCreateScene(name: string): Scene | null {
+        const existing = this.scenes.get(name);
+        if (existing) return existing;
+
+        const sceneClass = this.sceneClasses.get(name);
+        if (!sceneClass) return null;
+
+        const scene = new sceneClass(this.gameEngine, this.gameEngine.assetLoader, this);
+        this.scenes.set(name, scene);
+        return scene;
+    }
+
+    // Starts loading a scene's bundles in the background, then its background sounds; resolves once they are all cached.
+    // The bundles are held on the scene's behalf until it is disposed or falls out of reach (see releaseDistantScenes).
+    public async preloadScene(name: string): Promise<void> {
+        const sceneClass = this.sceneClasses.get(name);
+        const assetLoader = this.gameEngine.assetLoader;
+        if (!sceneClass || !assetLoader) return;
+        await Promise.all(sceneClass.bundles.map(bundle => assetLoader.loadBundle(bundle, name)));
+
+        const soundManager = this.gameEngine.soundManager;
+        if (!soundManager) return;
+        await Promise.all(sceneClass.backgroundSounds.map(sound =>
+            soundManager.loadSound(sound.name, sound.audio, true, sound.bus, { trim: sound.trim }).catch(error => {
+                console.error(`SceneManager: Failed to load background sound "${sound.name}" of "${name}":`, error);
+            })));
+    }
 
-                float noise = rand(uv + mod(time, 1.0)) * 0.2 * intensity;
-                color.rgb -= noise;
+    private getBackgroundSounds(name: string): readonly SceneBackgroundSound[] {
+        return this.sceneClasses.get(name)?.backgroundSounds ?? [];
+    }
+
+    // Whether entering the scene would have to wait for downloads (unregistered scenes have nothing to wait for)
+    public isSceneReady(name: string): boolean {
+        const sceneClass = this.sceneClasses.get(name);
+        return !sceneClass || !this.gameEngine.assetLoader || sceneClass.bundles.every(bundle => this.gameEngine.assetLoader.isBundleLoaded(bundle));
+    }
 
-                gl_FragColor = mix(vec4(0.0, 0.0, 0.0, 0.0), vec4(color.rgb, 1.0), intensity);
-              }
-            `,
-            transparent: true,
-            depthTest: false
+    public getSceneLoadProgress(name: string): AssetLoadProgress {
+        const sceneClass = this.sceneClasses.get(name);
+        if (!sceneClass || !this.gameEngine.assetLoader) {
+            return { loadedItems: 0, totalItems: 0, loadedBytes: 0, totalBytes: 0 };
+        }
+        return this.gameEngine.assetLoader.getBundleProgress(sceneClass.bundles);
+    }
+
+    // Preloads the scenes the given scene can lead to, so entering them doesn't stall on downloads
+    private preloadExits(name: string): void {
+        for (const exit of this.sceneGraph.getExits(name)) {
+            if (!this.sceneClasses.has(exit) || this.isSceneReady(exit)) continue;
+            console.log(`SceneManager: Preloading "${exit}" while "${name}" plays.`);
+            this.preloadScene(exit);
+        }
+    }
+
+    /**
+     * Frees the scenes that can't be reached from `name` in one step, so playing through the game
+     * doesn't keep every scene's assets resident. Initialized 'reset' scenes are disposed (a fresh
+     * instance starts where a reset one would) and bundles preloaded for scenes never entered are
+     * released. 'persist' scenes keep their state, and with it their assets.
+     */
+    private releaseDistantScenes(name: string): void {
+        const assetLoader = this.gameEngine.assetLoader;
+        if (!assetLoader) return;
+
+        const nearby = new Set<string>([name, ...this.sceneGraph.getExits(name), ...this.sceneStack.map(entry => entry.name)]);
+        this.sceneClasses.forEach((_sceneClass, sceneName) => {
+            if (nearby.has(sceneName)) return;
+            const scene = this.scenes.get(sceneName);
+            if (scene && this.initializedScenes.has(sceneName)) {
+                if (scene.reentryPolicy === 'reset') {
+                    this.disposeScene(sceneName);
+                }
+            } else {
+                assetLoader.releaseOwner(sceneName);
+            }
         });
     }
 
+    // Scene shown instead when a transition targets a scene that isn't registered
+    public setFallbackScene(name: string): void {
+        if (!this.sceneClasses.has(name)) {
+            console.warn(`SceneManager: Fallback scene "${name}" is not registered (yet).`);
+        }
+        this.fallbackSceneName = name;
+    }
+
+    public get fallbackSceneId(): string | null {
+        return this.fallbackSceneName;
+    }
 
-    // Add a listener for scene changes
-    public onSceneChanged(callback: (scene: Scene | null) => void): void {
-        this.sceneChangeListeners.push(callback);
+    // Scene shown automatically while the scene being entered waits for its assets
+    public setLoadingScene(name: string): void {
+        if (!this.sceneClasses.has(name)) {
+            console.warn(`SceneManager: Loading scene "${name}" is not registered (yet).`);
+        }
+        this.loadingSceneName = name;
     }
 
-    public addScene(name: string, scene: Scene): void {
-        if (this.scenes.has(name)) {
-            console.warn(`SceneManager: Scene with name "${name}" already exists. Overwriting.`);
+    public get isLoadingSceneActive(): boolean {
+        return this.activeLoadingScene !== null;
+    }
+
+    private async showLoadingScene(targetSceneId: string): Promise<void> {
+        if (!this.loadingSceneName || this.activeLoadingScene) return;
+        const loadingScene = this.getOrCreateScene(this.loadingSceneName);
+        if (!loadingScene) return;
+
+        if (!this.initializedScenes.has(this.loadingSceneName)) {
+            await loadingScene.init();
+            this.initializedScenes.add(this.loadingSceneName);
         }
-        this.scenes.set(name, scene);
-        console.log(`SceneManager: Scene "${name}" added.`);
+        console.log(`SceneManager: Showing "${this.loadingSceneName}" while "${targetSceneId}" loads.`);
+        await loadingScene.onEnter({ targetSceneId, fromSceneId: this.currentSceneName });
+        this.activeLoadingScene = loadingScene;
     }
 
-    public async setScene(name: string): Promise<void> {
-        const newScene = this.scenes.get(name);
+    private async hideLoadingScene(): Promise<void> {
+        const loadingScene = this.activeLoadingScene;
+        if (!loadingScene) return;
+        this.activeLoadingScene = null;
+        await loadingScene.onExit();
+    }
+
+    // Reports exits to unregistered scenes and scenes nothing leads to
+    public validateSceneGraph(entrySceneId: string | null = null): SceneGraphReport {
+        // Neither is reached through an exit
+        const excluded = [this.fallbackSceneName, this.loadingSceneName].filter((id): id is string => id !== null);
+        const report = this.sceneGraph.validate(entrySceneId, excluded);
+
+        for (const edge of report.missingTargets) {
+            console.error(`SceneManager: Scene "${edge.from}" has an exit to "${edge.to}", which is not registered.`);
+        }
+        for (const sceneId of report.unreachableScenes) {
+            console.warn(`SceneManager: Scene "${sceneId}" cannot be reached from "${report.entrySceneId}".`);
+        }
+        if (report.isValid) {
+            console.log(`SceneManager: Scene graph OK (${this.sceneClasses.size} scenes, entry "${report.entrySceneId}").`);
+        }
+        return report;
+    }
+
+    public async setScene<K extends string>(name: K, payload?: PayloadFor<K>): Promise<void> {
+        const newScene = this.getOrCreateScene(name);
         if (!newScene) {
             console.error(`SceneManager: Scene with name "${name}" not found.`);
+            if (this.fallbackSceneName && name !== this.fallbackSceneName && this.sceneClasses.has(this.fallbackSceneName)) {
+                await this.setScene(this.fallbackSceneName, { missingSceneId: name });
+            }
             return;
         }
 
-        // Call exit method on the old scene if it exists
+        // Replacing the scene also closes any overlays on top of it
+        await this.unwindOverlays();
+
+        // Call exit method on the old scene if it exists; what it returns goes to the new scene
+        const previousScene = this._currentScene;
+        const fromSceneId = this.currentSceneName;
+        let handoff: ScenePayload | void = undefined;
         if (this._currentScene && typeof this._currentScene.onExit === 'function') {
-            await this._currentScene.onExit();
+            handoff = await this._currentScene.onExit();
         }
 
         this._currentScene = newScene;
+        this.currentSceneName = name;
         this.gameState.setScene(name); // Update game state
+
+        if (previousScene && fromSceneId && previousScene !== newScene && previousScene.reentryPolicy === 'dispose') {
+            this.disposeScene(fromSceneId);
+        }
         console.log(`SceneManager: Current scene set to "${name}". Initializing...`);
 
-        // Initialize the new scene if not already initialized
+        // Wait for this scene's own assets only (usually preloaded already), then init hits the cache.
+        // If they still have to download, the loading scene is shown meanwhile (unless a transition put it up already).
+        if (!this.isSceneReady(name)) {
+            await this.showLoadingScene(name);
+        }
+        await this.preloadScene(name);
+
+        // Initialize the new scene if not already initialized, otherwise reset it if it asks for that
         if (!this.initializedScenes.has(name)) {
             await this._currentScene.init();
             this.initializedScenes.add(name);
+        } else if (this._currentScene.reentryPolicy === 'reset') {
+            console.log(`SceneManager: Resetting "${name}" for re-entry.`);
+            await this._currentScene.reset();
         }
-
-        // Wait for assets to load if AssetLoader is provided
-        if (this.gameEngine.assetLoader) {
-            await this.gameEngine.assetLoader.isEverythingLoaded();
-        }
+        await this.hideLoadingScene();
 
         // Notify listeners about scene change
         for (const listener of this.sceneChangeListeners) {
             listener(this._currentScene);
         }
 
+        // A transition fades the loops along with the picture (see performSceneChange); without one they switch at once
+        if (!this.isTransitioning) {
+            await this.gameEngine.soundManager?.crossfadeBackground(this.getBackgroundSounds(name), 0);
+        }
+
         // Call enter method on the new scene if it exists
         if (this._currentScene && typeof this._currentScene.onEnter === 'function') {
-            await this._currentScene.onEnter();
+            await this._currentScene.onEnter({ ...handoff, ...payload, fromSceneId });
+        }
+
+        this.preloadExits(name);
+        this.releaseDistantScenes(name);
+    }
+
+    /**
+     * Shows a scene on top of the current one without exiting it.
+     * The underlying scene is paused (no updates, no input) but keeps rendering and its audio.
+     * Resolves 'completed' once the overlay is showing; 'rejected' during a transition, 'ignored'
+     * if it is already on the stack, 'failed' if it isn't registered or its init() threw.
+     */
+    public async pushScene<K extends string>(name: K, payload?: PayloadFor<K>): Promise<SceneChangeStatus> {
+        const overlay = this.getOrCreateScene(name);
+        if (!overlay) {
+            console.error(`SceneManager: Scene with name "${name}" not found.`);
+            return 'failed';
+        }
+        if (!this._currentScene || !this.currentSceneName) {
+            console.warn(`SceneManager: Cannot push "${name}" without a current scene. Setting it instead.`);
+            await this.setScene(name);
+            return 'completed';
+        }
+        if (this.isTransitioning || this.activeLoadingScene) {
+            console.warn(`SceneManager: Cannot push "${name}" during a scene transition.`);
+            return 'rejected';
+        }
+        if (overlay === this._currentScene || this.sceneStack.some(entry => entry.scene === overlay)) {
+            console.warn(`SceneManager: Scene "${name}" is already on the stack.`);
+            return 'ignored';
         }
+
+        const underlying = { name: this.currentSceneName, scene: this._currentScene };
+        underlying.scene.onPause();
+        this.sceneStack.push(underlying);
+
+        if (!this.initializedScenes.has(name)) {
+            try {
+                await this.preloadScene(name);
+                await overlay.init();
+                this.initializedScenes.add(name);
+            } catch (error) {
+                console.error(`SceneManager: Failed to initialize overlay "${name}":`, error);
+                // Nothing was shown yet: drop the half-made overlay and hand the scene underneath back its turn
+                this.sceneStack.pop();
+                this.scenes.delete(name);
+                this.gameEngine.assetLoader?.releaseOwner(name);
+                underlying.scene.onResume();
+                return 'failed';
+            }
+        } else if (overlay.reentryPolicy === 'reset') {
+            console.log(`SceneManager: Resetting "${name}" for re-entry.`);
+            await overlay.reset();
+        }
+
+        this._currentScene = overlay;
+        this.currentSceneName = name;
+        console.log(`SceneManager: Pushed "${name}" over "${this.sceneStack[this.sceneStack.length - 1].name}"`);
+        await overlay.onEnter({ ...payload, fromSceneId: this.sceneStack[this.sceneStack.length - 1].name });
+        return 'completed';
+    }
+
+    // Closes the top overlay and resumes the scene underneath it
+    public async popScene(): Promise<void> {
+        const previous = this.sceneStack.pop();
+        if (!previous || !this._currentScene) {
+            console.warn(`SceneManager: popScene() called with no overlay on the stack.`);
+            return;
+        }
+
+        const handoff = await this._currentScene.onExit();
+        console.log(`SceneManager: Popped "${this.currentSceneName}", resuming "${previous.name}"`);
+
+        this._currentScene = previous.scene;
+        this.currentSceneName = previous.name;
+        this._currentScene.onResume(handoff ?? undefined);
     }
 
+    /**
+     * Frees a scene that isn't showing: calls its dispose() hook, then disposes the geometries,
+     * materials and textures left in its threeScene and releases the bundles held for it. The
+     * instance is dropped, so the next visit constructs and initializes a fresh one.
+     */
+    public disposeScene(name: string): void {
+        const scene = this.scenes.get(name);
+        if (!scene || !this.initializedScenes.has(name)) return;
+        if (this.isOnScreen(scene)) {
+            console.warn(`SceneManager: Cannot dispose "${name}" while it is on screen.`);
+            return;
+        }
+
+        scene.dispose();
+        ResourceDisposer.disposeScene(scene.threeScene);
+        this.gameEngine.assetLoader?.releaseOwner(name);
+        this.initializedScenes.delete(name);
+        this.scenes.delete(name);
+        console.log(`SceneManager: Scene "${name}" disposed.`);
+    }
+
+    private isOnScreen(scene: Scene): boolean {
+        return scene === this._currentScene || scene === this.activeLoadingScene || this.sceneStack.some(entry => entry.scene === scene);
+    }
+
+    // Disposes the scene (if it was initialized) and unregisters it
+    public removeScene(name: string): void {
+        if (this.scenes.get(name) === this._currentScene) {
+            console.warn(`SceneManager: Cannot remove the current scene "${name}".`);
+            return;
+        }
+        this.disposeScene(name);
+        this.scenes.delete(name);
+        this.sceneClasses.delete(name);
+        console.log(`SceneManager: Scene "${name}" removed.`);
+    }
+
+    // The scene receiving updates and input: the loading scene while one is shown
     public get currentScene(): Scene | null {
-        return this._currentScene;
+        return this.activeLoadingScene ?? this._currentScene;
+    }
+
+    public get currentSceneId(): string | null {
+        return this.currentSceneName;
+    }
+
+    // Scenes paused underneath the current overlay, bottom first (rendered before the current scene)
+    public get pausedScenes(): Scene[] {
+        return this.sceneStack.map(entry => entry.scene);
+    }
+
+    public get isOverlayActive(): boolean {
+        return this.sceneStack.length > 0;
+    }
+
+    private async unwindOverlays(): Promise<void> {
+        while (this.sceneStack.length > 0) {
+            const base = this.sceneStack.pop()!;
+            if (this._currentScene) {
+                await this._currentScene.onExit();
+            }
+            this._currentScene = base.scene;
+            this.currentSceneName = base.name;
+        }
     }
 
     public getSceneNames(): string[] {
-        return Array.from(this.scenes.keys());
+        return Array.from(this.sceneClasses.keys());
     }
 
 
-    private nextSceneId: string | null = null;
+    // Target of the transition currently running (including its delay), if any
+    public get transitionTargetId(): string | null {
+        return this.activeRequest?.sceneId ?? null;
+    }
+
+    // Next scene that will be entered once the running transition finishes, if any
+    public get pendingSceneId(): string | null {
+        return this.pendingRequests.length > 0 ? this.pendingRequests[0].sceneId : null;
+    }
 
-    public async changeScene(sceneId: string, transitionType: TransitionType = 'fade', delayTime: number = 0): Promise<void> {
-        console.log(`[SceneManager] Starting transition to scene "${sceneId}" with ${transitionType} transition${delayTime > 0 ? ` after ${delayTime}ms delay` : ''}`);
+    public getPendingSceneIds(): string[] {
+        return this.pendingRequests.map(request => request.sceneId);
+    }
 
-        if (this.isTransitioning) {
-            if (this.nextSceneId === sceneId) {
-                return; // Already transitioning to the requested scene
+    public setDefaultChangePolicy(policy: SceneChangePolicy): void {
+        this.defaultChangePolicy = policy;
+    }
+
+    /**
+     * Requests a transition to another scene. While another transition is running the request is
+     * handled by `options.policy` (default: replace whatever is pending). The returned promise
+     * resolves once the request has been carried out or dropped, with the reason.
+     */
+    public changeScene<K extends string>(sceneId: K, transitionType: TransitionType = 'fade', delayTime: number = 0, options: SceneChangeOptions<K> = {}): Promise<SceneChangeStatus> {
+        const policy = options.policy ?? this.defaultChangePolicy;
+
+        return new Promise<SceneChangeStatus>((resolve) => {
+            const request: SceneChangeRequest = { sceneId, transitionType, delayTime, token: options.token, payload: options.payload, resolve };
+
+            if (!this.activeRequest) {
+                this.runChangeRequest(request);
+                return;
             }
-            console.warn(`SceneManager: Already transitioning to scene "${this.nextSceneId}". Request to change to "${sceneId}" ignored.`);
-            return;
+
+            const lastTarget = this.pendingSceneIdAtEnd();
+            if (lastTarget === sceneId) {
+                console.log(`[SceneManager] Already heading to scene "${sceneId}". Duplicate request ignored.`);
+                resolve('ignored');
+                return;
+            }
+
+            switch (policy) {
+                case 'reject':
+                    console.warn(`SceneManager: Already transitioning to scene "${this.activeRequest.sceneId}". Request to change to "${sceneId}" rejected.`);
+                    resolve('rejected');
+                    break;
+                case 'enqueue':
+                    this.pendingRequests.push(request);
+                    console.log(`[SceneManager] Queued transition to "${sceneId}" (${this.pendingRequests.length} pending)`);
+                    break;
+                case 'replace':
+                    this.pendingRequests.forEach(pending => pending.resolve('replaced'));
+                    this.pendingRequests = [request];
+                    console.log(`[SceneManager] Pending transition replaced with "${sceneId}"`);
+                    break;
+            }
+        });
+    }
+
+    // The scene we will end up on once everything running and queued has finished
+    private pendingSceneIdAtEnd(): string | null {
+        if (this.pendingRequests.length > 0) {
+            return this.pendingRequests[this.pendingRequests.length - 1].sceneId;
+        }
+        return this.activeRequest?.sceneId ?? null;
+    }
+
+    private async runChangeRequest(request: SceneChangeRequest): Promise<void> {
+        this.activeRequest = request;
+        let status: SceneChangeStatus;
+        try {
+            status = await this.performSceneChange(request);
+        } catch (error) {
+            console.error(`[SceneManager] Scene change to "${request.sceneId}" failed:`, error);
+            status = 'failed';
+        } finally {
+            this.activeRequest = null;
+        }
+        request.resolve(status);
+
+        // Start the next queued request, dropping any that were cancelled while waiting
+        let next = this.pendingRequests.shift();
+        while (next && next.token?.isCancelled) {
+            console.log(`[SceneManager] Queued transition to "${next.sceneId}" was cancelled.`);
+            next.resolve('cancelled');
+            next = this.pendingRequests.shift();
+        }
+        if (next) {
+            this.runChangeRequest(next);
+        }
+    }
+
+    // Resolves true if the token was cancelled before the delay elapsed
+    private waitForDelay(ms: number, token?: SceneChangeToken): Promise<boolean> {
+        return new Promise(resolve => {
+            const timeout = setTimeout(() => resolve(false), ms);
+            token?.onCancel(() => {
+                clearTimeout(timeout);
+                resolve(true);
+            });
+        });
+    }
+
+    private async performSceneChange(request: SceneChangeRequest): Promise<SceneChangeStatus> {
+        const { sceneId, delayTime, token, payload } = request;
+        console.log(`[SceneManager] Starting transition to scene "${sceneId}" with ${request.transitionType} transition${delayTime > 0 ? ` after ${delayTime}ms delay` : ''}`);
+
+        if (token?.isCancelled) {
+            console.log(`[SceneManager] Transition to "${sceneId}" was cancelled before it started.`);
+            return 'cancelled';
+        }
+
+        let transition = this.transitions.get(request.transitionType);
+        if (!transition) {
+            console.warn(`[SceneManager] Unknown transition "${request.transitionType}". Falling back to fade.`);
+            transition = this.transitions.get('fade');
         }
 
         // Log component status before the check
-        console.log(`[SceneManager] Checking transition readiness: renderer=${!!this.renderer}, fadeOverlay=${!!this.fadeOverlay}, fadeMaterial=${!!this.fadeMaterial}, glitchMaterial=${!!this.glitchMaterial}`);
+        console.log(`[SceneManager] Checking transition readiness: renderer=${!!this.renderer}, transitionOverlay=${!!this.transitionOverlay}, transition=${transition?.name}`);
 
-        if (!this.renderer || !this.fadeOverlay || !this.fadeMaterial || !this.glitchMaterial) {
-            console.warn(`[SceneManager] Transition aborted: Renderer or transition materials not ready. Switching scene directly.`); // Ensure this logs
+        if (!this.renderer || !this.transitionOverlay || !transition) {
+            console.warn(`[SceneManager] Transition aborted: Renderer or transition not ready. Switching scene directly.`); // Ensure this logs
             try {
-                await this.setScene(sceneId);
+                await this.setScene(sceneId, payload);
             } catch (error) {
                 console.error(`[SceneManager] Error calling setScene directly after failed readiness check:`, error);
+                return 'failed';
             }
-            return; // Exit after direct switch
+            return 'completed'; // Exit after direct switch
         }
 
-        if (delayTime > 0) {
-            await delay(delayTime);
+        if (delayTime > 0 && await this.waitForDelay(delayTime, token)) {
+            console.log(`[SceneManager] Transition to "${sceneId}" was cancelled during its delay.`);
+            return 'cancelled';
         }
 
-        this.nextSceneId = sceneId;
         this.isTransitioning = true;
+        let status: SceneChangeStatus = 'completed';
+        const context = this.createTransitionContext(this.renderer, this.transitionOverlay);
+
+        // Audio follows the picture: while the screen covers, the loops the next scene doesn't share fade out
+        // (shared ones move to their new volume); while it uncovers, the next scene's loops fade in
+        const soundManager = this.gameEngine.soundManager;
+        const backgroundSounds = this.getBackgroundSounds(sceneId);
+        const fadeBackground = (targets: readonly SceneBackgroundSound[], easing: (t: number) => number) =>
+            soundManager?.crossfadeBackground(targets, transition.duration, easing);
 
         try {
-            console.log(`[SceneManager] Beginning transition out from current scene`);
-            // Transition out current scene
-            if (transitionType === 'fade') {
-                console.log(`[SceneManager] Starting fade out transition`);
-                await this.fade(1, 1000, Easing.easeInCubic);
-            } else { // glitch
-                // Play glitch sound if loaded
-                if (this.glitchSoundLoaded && this.gameEngine.soundManager && this.glitchSounds.length > 0) {
-                    try {
-                        let randomIndex: number;
-                        if (this.glitchSounds.length > 1) {
-                            do {
-                                randomIndex = Math.floor(Math.random() * this.glitchSounds.length);
-                            } while (randomIndex === this.lastGlitchSoundIndex);
-                        } else {
-                            randomIndex = 0;
-                        }
-                        this.lastGlitchSoundIndex = randomIndex;
-                        await this.gameEngine.soundManager.playSound(this.glitchSounds[randomIndex], 0.4);
-                    } catch (error) {
-                        console.error('Failed to play glitch transition sound:', error);
-                    }
-                }
-                await this.glitchTransition(1, 1000, Easing.easeInCubic);
+            console.log(`[SceneManager] Beginning ${transition.name} transition out from current scene`);
+            await Promise.all([
+                transition.out(context),
+                fadeBackground(backgroundSounds.filter(sound => soundManager?.isPlaying(sound.name)), transition.easeOut)
+            ]);
+
+            // Reveal the loading scene rather than holding a covered frame while the target downloads
+            if (this.loadingSceneName && !this.isSceneReady(sceneId)) {
+                await this.showLoadingScene(sceneId);
+                await transition.in(context);
+                await this.preloadScene(sceneId);
+                await transition.out(context);
             }
 
             // Change scene
             console.log(`[SceneManager] Performing scene change to "${sceneId}"`);
-            await this.setScene(sceneId);
+            await this.setScene(sceneId, payload);
             console.log(`[SceneManager] Scene change to "${sceneId}" completed`);
 
-
-
-            // Transition in new scene
-            console.log(`[SceneManager] Beginning transition into new scene`);
-            if (transitionType === 'fade') {
-                console.log(`[SceneManager] Starting fade in transition`);
-                await this.fade(0, 1000, Easing.easeOutCubic);
-            } else { // glitch
-                await this.glitchTransition(0, 1000, Easing.easeOutCubic);
-                // Play glitch sound again when transitioning in
-                if (this.glitchSoundLoaded && this.gameEngine.soundManager) {
-                    try {
-                        if (this.glitchSounds.length > 0) {
-                            let randomIndex: number;
-                            if (this.glitchSounds.length > 1) {
-                                do {
-                                    randomIndex = Math.floor(Math.random() * this.glitchSounds.length);
-                                } while (randomIndex === this.lastGlitchSoundIndex);
-                            } else {
-                                randomIndex = 0;
-                            }
-                            this.lastGlitchSoundIndex = randomIndex;
-                            await this.gameEngine.soundManager.playSound(this.glitchSounds[randomIndex], 0.4);
-                        }
-                    } catch (error) {
-                        console.error('Failed to play glitch transition sound:', error);
-                    }
-                }
-            }
+            console.log(`[SceneManager] Beginning ${transition.name} transition into new scene`);
+            await Promise.all([transition.in(context), fadeBackground(backgroundSounds, transition.easeIn)]);
 
             console.log(`[SceneManager] Transition to "${sceneId}" completed successfully`);
         } catch (error) {
             console.error(`[SceneManager] Error during transition to "${sceneId}":`, error);
             // Don't rethrow here, let finally handle cleanup
+            status = 'failed';
         } finally {
             this.isTransitioning = false;
-            this.nextSceneId = null;
             console.log(`[SceneManager] Transition state reset`);
         }
+        return status;
     }
 
-    private async fade(targetOpacity: number, duration: number, easingFn: (t: number) => number = Easing.linear): Promise<void> {
-        if (!this.fadeOverlay || !this.renderer || !this._currentScene) return;
-
-        const material = this.fadeOverlay.material as THREE.MeshBasicMaterial; // Assume it's MeshBasicMaterial for fade
-        const startOpacity = material.opacity;
-        const startTime = performance.now();
-
-        // Add overlay to scene if not already present
-        if (!this._currentScene.threeScene.children.includes(this.fadeOverlay)) {
-            this._currentScene.threeScene.add(this.fadeOverlay);
-        }
-        // Ensure the correct material is set
-        this.fadeOverlay.material = this.fadeMaterial!;
-
-        return new Promise((resolve) => {
-            const animate = (currentTime: number) => {
-                const elapsed = currentTime - startTime;
-                const progress = Math.min(elapsed / duration, 1);
-
-                const currentMaterial = this.fadeOverlay!.material as THREE.MeshBasicMaterial;
-                currentMaterial.opacity = startOpacity + (targetOpacity - startOpacity) * easingFn(progress);
-
-                if (progress < 1) {
-                    requestAnimationFrame(animate);
-                } else {
-                    // If fading out completely (opacity 0), remove overlay from scene
-                    if (targetOpacity === 0 && this._currentScene && this.fadeOverlay) {
-                        this._currentScene.threeScene.remove(this.fadeOverlay);
-                    }
-                    resolve();
+    private createTransitionContext(renderer: THREE.WebGLRenderer, overlay: THREE.Mesh): TransitionContext {
+        return {
+            renderer,
+            overlay,
+            getScene: () => this.currentScene?.threeScene ?? null,
+            captureView: (target) => {
+                if (!this.gameEngine.camera) {
+                    console.error("[SceneManager] GameEngine does not have a 'camera' property.");
+                    return false;
                 }
-            };
-
-            requestAnimationFrame(animate);
-        });
+                overlay.visible = false; // Keep the overlay out of its own capture
+                renderer.setRenderTarget(target);
+                this.renderScenes(renderer, this.gameEngine.camera);
+                renderer.setRenderTarget(null);
+                overlay.visible = true;
+                return true;
+            },
+            playSound: (name, volume) => {
+                this.gameEngine.soundManager?.playSound(name, volume);
+            }
+        };
     }
 
-    private async glitchTransition(targetIntensity: number, duration: number, easingFn: (t: number) => number = Easing.linear): Promise<void> {
-        // Log component status IMMEDIATELY upon entry
-        console.log(`[glitchTransition] Entered. Status: glitchMaterial=${!!this.glitchMaterial}, renderer=${!!this.renderer}, currentScene=${!!this._currentScene}, fadeOverlay=${!!this.fadeOverlay}`);
-
-        if (!this.glitchMaterial || !this.renderer || !this._currentScene || !this.fadeOverlay) {
-            console.warn(`[glitchTransition] Aborting: One or more required components are missing.`);
-            return; // Exit if components are missing
-        }
-
-        console.log(`[glitchTransition] Starting animation. Target intensity: ${targetIntensity}, Duration: ${duration}`);
-        const startIntensity = this.glitchMaterial.uniforms.intensity.value;
-        const startTime = performance.now();
-
-        // Ensure the overlay mesh uses the glitch material
-        this.fadeOverlay.material = this.glitchMaterial;
+    // Loads the sound cues of a transition as soon as it is registered
+    private loadTransitionSounds(transition: Transition): void {
+        if (!this.gameEngine.soundManager) return;
 
-        // Add overlay to scene if not already present
-        if (!this._currentScene.threeScene.children.includes(this.fadeOverlay)) {
-            this._currentScene.threeScene.add(this.fadeOverlay);
-        }
-
-        // We need a render target to capture the current scene
-        // Ensure renderer dimensions are valid
-        const width = this.renderer.domElement.width;
-        const height = this.renderer.domElement.height;
-        if (width <= 0 || height <= 0) {
-            console.error(`[glitchTransition] Invalid renderer dimensions (${width}x${height}). Cannot create render target.`);
-            return;
+        for (const sound of transition.getSounds()) {
+            this.gameEngine.soundManager.loadSound(sound.name, sound.audio).catch(error => {
+                console.error(`Failed to load ${transition.name} transition sound ${sound.audio}:`, error);
+            });
         }
-        const renderTarget = new THREE.WebGLRenderTarget(width, height);
-
-        return new Promise<void>((resolve) => { // Explicitly type Promise
-            const animate = (currentTime: number) => {
-                // console.log(`[glitchTransition] animate frame at time: ${currentTime.toFixed(2)}`); // Optional: Very verbose log
-
-                // Re-check components inside loop in case something changes (e.g., scene disposed)
-                if (!this.glitchMaterial || !this.renderer || !this._currentScene || !this.fadeOverlay) {
-                    console.warn(`[glitchTransition] Animation aborted mid-loop: Missing required components.`);
-                    renderTarget.dispose();
-                    resolve();
-                    return;
-                }
-
-                try {
-                    // 1. Render the current scene to the render target (excluding the overlay)
-                    this.fadeOverlay.visible = false; // Hide overlay temporarily
-                    this.renderer.setRenderTarget(renderTarget);
-
-                    if (this.gameEngine.camera) {
-                        this.renderer.render(this._currentScene.threeScene, this.gameEngine.camera);
-                    } else {
-                        console.error("[glitchTransition] GameEngine does not have a 'camera' property.");
-                        this.renderer.setRenderTarget(null); // Reset render target before exiting
-                        renderTarget.dispose();
-                        resolve(); // Resolve promise even on error to avoid hanging
-                        return;
-                    }
-                    this.renderer.setRenderTarget(null); // Reset render target
-                    this.fadeOverlay.visible = true; // Make overlay visible again
-
-                    // 2. Update glitch shader uniforms
-                    const elapsed = currentTime - startTime;
-                    const progress = Math.min(elapsed / duration, 1);
-                    const easedProgress = easingFn(progress);
-                    const currentIntensity = startIntensity + (targetIntensity - startIntensity) * easedProgress;
-                    // console.log(`[glitchTransition] Progress: ${progress.toFixed(3)}, Eased: ${easedProgress.toFixed(3)}, Intensity: ${currentIntensity.toFixed(3)}`);
-
-                    this.glitchMaterial.uniforms.time.value = currentTime * 0.001;
-                    this.glitchMaterial.uniforms.intensity.value = currentIntensity;
-                    this.glitchMaterial.uniforms.tDiffuse.value = renderTarget.texture;
-
-                    // 3. The GameEngine's render loop handles rendering the overlay
-
-                    if (progress < 1) {
-                        requestAnimationFrame(animate);
-                    } else {
-                        console.log(`[glitchTransition] Animation loop finished. Final intensity: ${currentIntensity.toFixed(3)}`);
-                        // Reset intensity and switch back material after transition completes
-                        this.glitchMaterial.uniforms.intensity.value = targetIntensity; // Ensure final value is set
-
-                        if (targetIntensity === 0 && this.fadeMaterial && this.fadeOverlay) {
-                            console.log(`[glitchTransition] Resetting material to fade and removing overlay.`);
-                            this.fadeOverlay.material = this.fadeMaterial;
-                            if (this._currentScene) {
-                                this._currentScene.threeScene.remove(this.fadeOverlay);
-                            }
-                        }
-                        renderTarget.dispose();
-                        console.log(`[glitchTransition] Resolving promise.`);
-                        resolve();
-                    }
-                } catch (error) {
-                    console.error("[glitchTransition] Error inside animation loop:", error);
-                    renderTarget.dispose(); // Ensure cleanup on error
-                    resolve(); // Resolve promise even on error to avoid hanging
-                }
-            }; // End of animate function definition
-
-            requestAnimationFrame(animate);
-        }); // End of Promise constructor
-    } // End of glitchTransition method
-
+    }
 }
@@ -0,0 +1,39 @@
+// src/core/ScenePayloads.ts
+import { TextureId } from '../utils/AssetManifest';
+
+// Data a scene receives in onEnter: whatever the previous scene returned from onExit,
+// overridden by the payload given to changeScene/setScene
+export interface ScenePayload {
+    fromSceneId?: string | null; // Filled in by SceneManager; null for the first scene
+    [key: string]: unknown;
+}
+
+// One of the buttons of the decision overlay; its id is what the overlay hands back as `choice`
+export interface DecisionOption {
+    id: string;
+    label: string;
+    image?: TextureId; // Shown instead of the label; the scene pushing the overlay holds its bundle
+}
+
+// Payload type of each scene id, so changeScene('cena1_trabalho', ...) checks what it sends
+export interface ScenePayloads {
+    cena1_trabalho: ScenePayload & {
+        reason?: 'new_game' | 'back_to_work';
+        postsScrolled?: number; // Returned by cena2_rua when leaving the street
+    };
+    scene_missing: ScenePayload & {
+        missingSceneId?: string;
+    };
+    loading: ScenePayload & {
+        targetSceneId?: string; // Scene whose assets are being waited on
+    };
+    decision_overlay: ScenePayload & {
+        prompt?: string;
+        options?: readonly DecisionOption[];
+    };
+    phone_feed: ScenePayload & {
+        closeAfterScrolls?: number; // The phone is put away on its own after this many new posts
+    };
+}
+
+export type PayloadFor<K extends string> = K extends keyof ScenePayloads ? ScenePayloads[K] : ScenePayload;
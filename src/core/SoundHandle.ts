@@ -0,0 +1,130 @@
+// src/core/SoundHandle.ts
+import * as THREE from 'three';
+import { Easing } from '../utils/Easing';
+
+// What a handle needs from SoundManager to drive the voice it was given
+export interface VoiceControls {
+    fade(sound: THREE.Audio, volume: number, duration: number, easing: (t: number) => number): Promise<void>;
+    cancelFade(sound: THREE.Audio): void;
+    toSoundVolume(name: string, volume: number): number;
+}
+
+// 'pending': waiting for audio to be allowed or the sound to load; 'ended': played out, stopped, or never played
+export type SoundHandleState = 'pending' | 'playing' | 'paused' | 'ended';
+
+/**
+ * One play of a one-shot sound, returned by SoundManager.playSound(). It can be controlled before it
+ * has started (a handle stopped while pending never plays). Once it has ended the handle lets go of its
+ * voice, which the pool hands to later plays, and every call on it does nothing.
+ */
+export class SoundHandle {
+    // Resolves when the sound plays to the end, is stopped, loses its voice to a newer play, or can't play
+    public readonly ended: Promise<void>;
+    private resolveEnded!: () => void;
+    private sound: THREE.Audio | null = null;
+    private state: SoundHandleState = 'pending';
+    private volume: number;
+
+    constructor(public readonly name: string, volume: number, private controls: VoiceControls) {
+        this.volume = controls.toSoundVolume(name, volume);
+        this.ended = new Promise<void>(resolve => {
+            this.resolveEnded = resolve;
+        });
+    }
+
+    public getState(): SoundHandleState {
+        return this.state;
+    }
+
+    public isPlaying(): boolean {
+        return this.state === 'playing';
+    }
+
+    // Called by SoundManager with the voice to play on; a handle paused while pending holds it without playing
+    public start(sound: THREE.Audio): void {
+        if (this.state === 'ended') return;
+        this.sound = sound;
+        this.controls.cancelFade(sound);
+        sound.setVolume(this.volume);
+        sound.offset = 0;
+        sound.onEnded = () => {
+            THREE.Audio.prototype.onEnded.call(sound);
+            this.finish();
+        };
+        if (this.state === 'pending') {
+            this.state = 'playing';
+            sound.play();
+        }
+    }
+
+    public stop(): void {
+        if (this.state === 'ended') return;
+        if (this.sound) {
+            this.controls.cancelFade(this.sound);
+            this.sound.stop();
+        }
+        this.finish();
+    }
+
+    public pause(): void {
+        if (this.state !== 'playing' && this.state !== 'pending') return;
+        if (this.sound) {
+            this.controls.cancelFade(this.sound);
+            this.sound.pause();
+        }
+        this.state = 'paused';
+    }
+
+    // Carries on from where pause() left it
+    public resume(): void {
+        if (this.state !== 'paused') return;
+        if (!this.sound) {
+            this.state = 'pending'; // start() will play it
+            return;
+        }
+        this.state = 'playing';
+        this.sound.play();
+    }
+
+    public setVolume(volume: number): void {
+        if (this.state === 'ended') return;
+        this.volume = this.controls.toSoundVolume(this.name, volume);
+        if (this.sound) {
+            this.controls.cancelFade(this.sound);
+            this.sound.setVolume(this.volume);
+        }
+    }
+
+    public getVolume(): number {
+        return this.sound?.getVolume() ?? this.volume;
+    }
+
+    // Ramps to `volume` over `duration` ms; fading to 0 stops the sound. Not playing: jumps to the volume.
+    public async fade(volume: number, duration: number, easing: (t: number) => number = Easing.linear): Promise<void> {
+        if (this.state !== 'playing' || !this.sound) {
+            if (volume <= 0) {
+                this.stop();
+            } else {
+                this.setVolume(volume);
+            }
+            return;
+        }
+        const sound = this.sound;
+        this.volume = this.controls.toSoundVolume(this.name, volume);
+        await this.controls.fade(sound, this.volume, duration, easing);
+        // Stopped by the fade rather than taken over by another call
+        if (this.sound === sound && this.state === 'playing' && !sound.isPlaying) {
+            this.finish();
+        }
+    }
+
+    private finish(): void {
+        if (this.state === 'ended') return;
+        if (this.sound) {
+            this.sound.onEnded = THREE.Audio.prototype.onEnded;
+            this.sound = null;
+        }
+        this.state = 'ended';
+        this.resolveEnded();
+    }
+}
@@ -1,23 +1,87 @@
 // src/core/SoundManager.ts
 import * as THREE from 'three';
 import { AssetLoader } from '../utils/AssetLoader';
+import { CharacterId } from './GameState';
+import { AudioId } from '../utils/AssetManifest';
+import { AudioMixer, AudioBus } from './AudioMixer';
+import { Easing } from '../utils/Easing';
+import { CHARACTER_AUDIO_PRESETS } from './AudioEffects';
+import { DEFAULT_SPATIAL_CURVES, SoundEmitter, SpatialCurves } from './SpatialAudio';
+import { SoundHandle, VoiceControls } from './SoundHandle';
+
+const CHARACTER_PRESET_RAMP_SECONDS = 1.5; // About as long as the character swap transition
+const SPATIAL_RAMP_SECONDS = 0.05; // Smooths the per-frame pan and gain updates of attached sounds
+const DEFAULT_MAX_VOICES = 4; // Copies of one one-shot that can play over each other
+
+// A looping sound and the volume to hold it at
+export interface BackgroundSound {
+    name: string;
+    volume: number;
+}
+
+// How a sound is set up when it is loaded
+export interface SoundOptions {
+    maxVoices?: number; // Plays of a one-shot that overlap before the oldest is cut off; loops have one
+    trim?: number; // Level the sound is mixed at before its volume (see AudioMixer.route); 1 unless given
+}
+
+// The object a sound follows on screen, and how
+interface SoundAttachment {
+    object: THREE.Object3D;
+    curves: SpatialCurves;
+}
+
+/**
+ * The voices of a one-shot: THREE.Audio instances made as plays overlap, up to maxVoices.
+ * Ordered from the least to the most recently started, so a play past the limit takes voices[0].
+ */
+interface SoundPool {
+    buffer: AudioBuffer;
+    bus: AudioBus;
+    trim: number;
+    maxVoices: number;
+    voices: THREE.Audio[];
+    handles: Map<THREE.Audio, SoundHandle>; // Voices in use and the plays holding them
+}
 
 export class SoundManager {
     private audioListener: THREE.AudioListener;
-    private sounds: Map<string, THREE.Audio>;
+    private sounds: Map<string, SoundPool>;
     private backgroundSounds: Map<string, THREE.Audio>;
     private assetLoader: AssetLoader;
     private loadingPromises: Map<string, Promise<void>> = new Map(); // Track loading sounds
     private isAudioAllowed = false;
     private queuedSounds: Array<() => void> = [];
-    private defaultVolumes: Map<string, number> = new Map();
+    private currentCharacter: CharacterId | null = null;
+    private fades: Map<THREE.Audio, number> = new Map(); // Id of the fade driving each sound's volume
+    private nextFadeId: number = 0;
+    private pendingBackground: readonly BackgroundSound[] | null = null; // Asked for before audio was allowed
+    private attachments: Map<string, SoundAttachment> = new Map(); // Set by attachSound(), by sound name
+    private emitters: Map<THREE.Audio, SoundEmitter> = new Map(); // Pan and gain of each attached sound or voice
+    private camera: THREE.Camera;
+    private readonly voiceControls: VoiceControls = {
+        fade: (sound, volume, duration, easing) => this.fadeSound(sound, volume, duration, easing),
+        cancelFade: sound => this.fades.delete(sound),
+        toSoundVolume: (name, volume) => this.toSoundVolume(name, volume)
+    };
+    public readonly mixer: AudioMixer;
 
     constructor(camera: THREE.Camera, assetLoader: AssetLoader) {
+        this.camera = camera;
         this.audioListener = new THREE.AudioListener();
         camera.add(this.audioListener);
+        this.mixer = new AudioMixer(this.audioListener);
+        this.mixer.applyPreset(CHARACTER_AUDIO_PRESETS.Joao, 0); // Until a character is chosen
+        this.assetLoader = assetLoader;
+        // A released bundle takes its sounds with it; loading them again picks up the bundle's new buffers
+        this.assetLoader.onAudioEvicted(buffer => this.unloadBuffer(buffer));
+        this.assetLoader.loadAudio('fx.reverb_ir').then(buffer => {
+            this.mixer.setImpulseResponse(buffer);
+        }).catch(error => {
+            console.error('[SoundManager] Failed to load the reverb impulse response; playing without reverb:', error);
+        });
         this.sounds = new Map();
         this.backgroundSounds = new Map();
-        this.assetLoader = assetLoader;
         this.loadingPromises = new Map();
 
         // Add multiple interaction handlers to enable audio
@@ -42,9 +106,18 @@ export class SoundManager {
     private playQueuedSounds() {
         this.queuedSounds.forEach(play => play());
         this.queuedSounds = [];
+        // Only the latest set of loops matters; no point fading through the earlier ones
+        if (this.pendingBackground) {
+            const targets = this.pendingBackground;
+            this.pendingBackground = null;
+            this.crossfadeBackground(targets, 0);
+        }
     }
 
-    public loadSound(name: string, url: string, isBackground: boolean = false, volume: number = 0.5): Promise<void> {
+    // Loops default to the ambience bus and one-shots to sfx; pass the bus for music, UI sounds and voices.
+    // The options are fixed by the first load of a name, so every caller sharing a sound should pass the same ones.
+    public loadSound(name: string, audio: AudioId, isBackground: boolean = false, bus: AudioBus = isBackground ? 'ambience' : 'sfx', options: SoundOptions = {}): Promise<void> {
+        const { maxVoices = DEFAULT_MAX_VOICES, trim = 1 } = options;
         // If already loaded or loading, return existing promise or resolve immediately
         if (this.sounds.has(name) || this.backgroundSounds.has(name)) {
             console.log(`[SoundManager] Sound ${name} already loaded.`);
@@ -55,22 +128,20 @@ export class SoundManager {
             return this.loadingPromises.get(name)!;
         }
 
-        console.log(`[SoundManager] Starting load for sound ${name} from ${url}`);
+        console.log(`[SoundManager] Starting load for sound ${name} from ${audio} (bus: ${bus})`);
         const loadPromise = (async () => {
             try {
-                const audioBuffer = await this.assetLoader.loadAudio(url);
+                const audioBuffer = await this.assetLoader.loadAudio(audio);
                 console.log(`[SoundManager] Loaded audio buffer for ${name}`);
-                const sound = new THREE.Audio(this.audioListener);
-                sound.setBuffer(audioBuffer);
-
                 if (isBackground) {
+                    const sound = this.createVoice(audioBuffer, bus, trim);
                     sound.setLoop(true);
+                    // Attached before it finished loading
+                    this.setEmitter(sound, this.attachments.get(name) ?? null);
                     this.backgroundSounds.set(name, sound);
                 } else {
-                    this.sounds.set(name, sound);
+                    this.sounds.set(name, { buffer: audioBuffer, bus, trim, maxVoices: Math.max(1, Math.floor(maxVoices)), voices: [], handles: new Map() });
                 }
-                this.defaultVolumes.set(name, volume);
-                sound.setVolume(volume);
             } catch (error) {
                 console.error(`[SoundManager] Failed to load sound ${name}:`, error);
                 // Rethrow so the caller knows loading failed
@@ -87,40 +158,186 @@ export class SoundManager {
         return loadPromise;
     }
 
-    public async playSound(name: string, volume: number = 0.5): Promise<void> {
+    // Stops the sound and forgets it, so its buffer can be freed; loadSound() can bring it back
+    public unloadSound(name: string): void {
+        const pool = this.sounds.get(name);
+        if (pool) {
+            pool.handles.forEach(handle => handle.stop());
+            pool.voices.forEach(voice => this.releaseVoice(voice));
+            this.sounds.delete(name);
+        }
+        const loop = this.backgroundSounds.get(name);
+        if (loop) {
+            this.releaseVoice(loop);
+            this.backgroundSounds.delete(name);
+        }
+        if (pool || loop) {
+            console.log(`[SoundManager] Unloaded sound ${name}`);
+        }
+    }
+
+    private unloadBuffer(buffer: AudioBuffer): void {
+        this.sounds.forEach((pool, name) => {
+            if (pool.buffer === buffer) this.unloadSound(name);
+        });
+        this.backgroundSounds.forEach((sound, name) => {
+            if (sound.buffer === buffer) this.unloadSound(name);
+        });
+    }
+
+    private releaseVoice(sound: THREE.Audio): void {
+        this.fades.delete(sound);
+        this.emitters.delete(sound);
+        if (sound.isPlaying) {
+            sound.stop();
+        }
+        sound.gain.disconnect();
+    }
+
+    // Volumes are 0..1 of the sound's trim; a sound that is too quiet at 1 needs a bigger trim, not a bigger volume
+    private toSoundVolume(name: string, volume: number): number {
+        if (volume > 1) {
+            console.warn(`[SoundManager] Volume ${volume} for ${name} is above 1; clamped.`);
+        }
+        return THREE.MathUtils.clamp(volume, 0, 1);
+    }
+
+    private createVoice(buffer: AudioBuffer, bus: AudioBus, trim: number): THREE.Audio {
+        const sound = new THREE.Audio(this.audioListener);
+        sound.setBuffer(buffer);
+        this.mixer.route(sound, bus, trim);
+        return sound;
+    }
+
+    /**
+     * Plays a one-shot on a free voice of its pool, cutting off its oldest play if all are taken.
+     * Returns at once: before audio is allowed, or while the sound is still loading, the handle
+     * waits and plays when it can (unless stopped first). Follows the object from attachSound(), if any.
+     */
+    public playSound(name: string, volume: number = 0.5): SoundHandle {
+        return this.startSound(name, volume, this.attachments.get(name) ?? null);
+    }
+
+    // Plays a one-shot from where `object` is on screen, with the curves given to attachSound() or the defaults
+    public playSoundAt(name: string, object: THREE.Object3D, volume: number = 0.5): SoundHandle {
+        const curves = this.attachments.get(name)?.curves ?? DEFAULT_SPATIAL_CURVES;
+        return this.startSound(name, volume, { object, curves });
+    }
+
+    private startSound(name: string, volume: number, attachment: SoundAttachment | null): SoundHandle {
+        const handle = new SoundHandle(name, volume, this.voiceControls);
         if (!this.isAudioAllowed) {
-            this.queuedSounds.push(() => this.playSound(name, volume));
-            return;
+            this.queuedSounds.push(() => this.startVoice(handle, attachment));
+        } else {
+            this.startVoice(handle, attachment);
         }
+        return handle;
+    }
 
-        let sound = this.sounds.get(name);
+    private async startVoice(handle: SoundHandle, attachment: SoundAttachment | null): Promise<void> {
+        const name = handle.name;
+        let pool = this.sounds.get(name);
 
         // If sound not found, check if it's currently loading
-        if (!sound && this.loadingPromises.has(name)) {
+        if (!pool && this.loadingPromises.has(name)) {
             console.log(`[SoundManager] Sound ${name} not loaded yet, awaiting loading promise...`);
             try {
                 await this.loadingPromises.get(name);
-                sound = this.sounds.get(name); // Try getting the sound again
+                pool = this.sounds.get(name); // Try getting the sound again
                 console.log(`[SoundManager] Sound ${name} finished loading.`);
             } catch (error) {
                 console.error(`[SoundManager] Error awaiting loading promise for sound ${name}:`, error);
-                // Don't proceed if loading failed
+                handle.stop();
                 return;
             }
         }
 
-        // Now try to play the sound if it exists
-        if (sound) {
-            //console.log(`[SoundManager] Playing sound ${name} at volume ${volume}`);
-            sound.setVolume(volume);
-            // Ensure sound is not already playing if play() doesn't handle it
-            if (sound.isPlaying) {
-                sound.stop();
+        if (!pool) {
+            console.warn(`[SoundManager] Sound ${name} not found or failed to load.`);
+            handle.stop();
+            return;
+        }
+        if (handle.getState() === 'ended') return; // Stopped while waiting
+
+        const voice = this.takeVoice(pool);
+        this.setEmitter(voice, attachment);
+        pool.handles.set(voice, handle);
+        handle.start(voice);
+        handle.ended.then(() => {
+            // Unless a newer play has taken the voice already
+            if (pool.handles.get(voice) === handle) {
+                pool.handles.delete(voice);
             }
-            sound.play();
+        });
+    }
+
+    // A free voice, a new one while under the limit, or the one started longest ago, stopping its play
+    private takeVoice(pool: SoundPool): THREE.Audio {
+        let voice = pool.voices.find(candidate => !pool.handles.has(candidate));
+        if (!voice && pool.voices.length < pool.maxVoices) {
+            voice = this.createVoice(pool.buffer, pool.bus, pool.trim);
+        } else if (!voice) {
+            voice = pool.voices[0];
+            pool.handles.get(voice)?.stop();
+            pool.handles.delete(voice);
+        }
+        pool.voices = pool.voices.filter(candidate => candidate !== voice);
+        pool.voices.push(voice);
+        return voice;
+    }
+
+    /**
+     * Pans the sound across the stereo field and attenuates it to follow `object` on screen, every
+     * frame while it plays, until detachSound(). A sound has one object at a time: attaching it again
+     * moves it to the new object, keeping its curves unless new ones are given. For a one-shot this
+     * applies to the plays that start afterwards; playSoundAt() places a single play instead.
+     */
+    public attachSound(name: string, object: THREE.Object3D, curves?: SpatialCurves): void {
+        const attachment = { object, curves: curves ?? this.attachments.get(name)?.curves ?? DEFAULT_SPATIAL_CURVES };
+        this.attachments.set(name, attachment);
+        const loop = this.backgroundSounds.get(name);
+        if (loop) {
+            this.setEmitter(loop, attachment);
+        }
+    }
+
+    // Back to plain stereo, wherever the sound's object went
+    public detachSound(name: string): void {
+        if (!this.attachments.delete(name)) return;
+        const loop = this.backgroundSounds.get(name);
+        if (loop) {
+            this.setEmitter(loop, null);
+        }
+    }
+
+    // Puts a panner between the sound's source and its volume, moves it to another object, or takes it out (null)
+    private setEmitter(sound: THREE.Audio, attachment: SoundAttachment | null): void {
+        let emitter = this.emitters.get(sound);
+        if (!attachment) {
+            if (emitter) {
+                this.emitters.delete(sound);
+                sound.setFilters([]);
+            }
+            return;
+        }
+        if (emitter) {
+            emitter.object = attachment.object;
+            emitter.curves = attachment.curves;
         } else {
-            console.warn(`[SoundManager] Sound ${name} not found or failed to load.`);
+            emitter = new SoundEmitter(this.audioListener.context, attachment.object, attachment.curves);
+            this.emitters.set(sound, emitter);
+            sound.setFilters(emitter.nodes);
         }
+        emitter.update(this.camera, 0);
+    }
+
+    // Called every frame by GameEngine; keeps playing attached sounds on their objects
+    public update(): void {
+        this.emitters.forEach((emitter, sound) => {
+            if (sound.isPlaying) {
+                emitter.update(this.camera, SPATIAL_RAMP_SECONDS);
+            }
+        });
     }
 
     public async playBackground(name: string, volume: number = 0.3): Promise<void> {
@@ -152,7 +369,8 @@ export class SoundManager {
                 const duration = buffer.duration;
                 const randomOffset = Math.random() * duration;
                 console.log(`[SoundManager] Playing background sound ${name} at volume ${volume}, starting at ${randomOffset.toFixed(2)}s of ${duration.toFixed(2)}s`);
-                sound.setVolume(volume);
+                this.fades.delete(sound);
+                sound.setVolume(this.toSoundVolume(name, volume));
                 // Ensure sound is stopped before setting offset and playing again
                 if (sound.isPlaying) {
                     sound.stop();
@@ -167,8 +385,112 @@ export class SoundManager {
         }
     }
 
+    // A loaded loop by name, waiting for it if it is still loading
+    private async getLoadedBackground(name: string): Promise<THREE.Audio | undefined> {
+        const loading = this.loadingPromises.get(name);
+        if (loading) {
+            try {
+                await loading;
+            } catch {
+                return undefined; // Already logged by loadSound
+            }
+        }
+        return this.backgroundSounds.get(name);
+    }
+
+    // A loop, or any play of a one-shot
+    public isPlaying(name: string): boolean {
+        const pool = this.sounds.get(name);
+        if (pool) {
+            return pool.voices.some(voice => voice.isPlaying);
+        }
+        return this.backgroundSounds.get(name)?.isPlaying ?? false;
+    }
+
+    /**
+     * Ramps a loop to `volume` over `duration` ms. A stopped loop is started silent first, at a
+     * random point like playBackground, and a loop faded to 0 is stopped at the end. Starting
+     * another fade, or playing the loop, takes over from a running fade, whose promise then resolves.
+     * One-shots fade through the handle playSound() returns.
+     */
+    public async fadeTo(name: string, volume: number, duration: number, easing: (t: number) => number = Easing.linear): Promise<void> {
+        const sound = await this.getLoadedBackground(name);
+        if (!sound) {
+            console.warn(`[SoundManager] Cannot fade ${name}: not found or failed to load.`);
+            return;
+        }
+        return this.fadeSound(sound, this.toSoundVolume(name, volume), duration, easing);
+    }
+
+    private fadeSound(sound: THREE.Audio, target: number, duration: number, easing: (t: number) => number): Promise<void> {
+        if (!sound.isPlaying) {
+            if (target === 0) return Promise.resolve();
+            const bufferDuration = sound.buffer?.duration ?? 0;
+            sound.offset = sound.getLoop() && bufferDuration > 0 ? Math.random() * bufferDuration : 0;
+            sound.setVolume(0);
+            sound.play();
+        }
+
+        const fadeId = ++this.nextFadeId;
+        this.fades.set(sound, fadeId);
+        const from = sound.getVolume();
+        const startTime = performance.now();
+
+        return new Promise<void>((resolve) => {
+            const frame = (currentTime: number) => {
+                if (this.fades.get(sound) !== fadeId) {
+                    resolve(); // Taken over by another fade or a play call
+                    return;
+                }
+                const linear = duration > 0 ? Math.min((currentTime - startTime) / duration, 1) : 1;
+                sound.setVolume(from + (target - from) * easing(linear));
+                if (linear < 1) {
+                    requestAnimationFrame(frame);
+                    return;
+                }
+                this.fades.delete(sound);
+                if (target === 0) {
+                    sound.stop();
+                }
+                resolve();
+            };
+            frame(startTime);
+        });
+    }
+
+    /**
+     * Makes `targets` the loops that play: they fade to their volume (starting from silence if
+     * they weren't playing) while every other playing loop fades out and stops. A loop that is in
+     * the targets and already playing carries on where it is, only its volume changes.
+     */
+    public async crossfadeBackground(targets: readonly BackgroundSound[], duration: number, easing: (t: number) => number = Easing.linear): Promise<void> {
+        if (!this.isAudioAllowed) {
+            this.pendingBackground = targets;
+            return;
+        }
+
+        const fades = targets.map(target => this.fadeTo(target.name, target.volume, duration, easing));
+        this.backgroundSounds.forEach((sound, name) => {
+            if (sound.isPlaying && !targets.some(target => target.name === name)) {
+                fades.push(this.fadeTo(name, 0, duration, easing));
+            }
+        });
+        await Promise.all(fades);
+    }
+
+    // Called by CharacterManager whenever control moves between João and Nyx
+    public onCharacterChanged(character: CharacterId | null): void {
+        if (this.currentCharacter === character) return;
+        this.currentCharacter = character;
+        // João's realistic mix also stands in when nobody is playing yet (menus)
+        this.mixer.applyPreset(CHARACTER_AUDIO_PRESETS[character ?? 'Joao'], CHARACTER_PRESET_RAMP_SECONDS);
+        console.log(`[SoundManager] Character is now ${character}`);
+    }
+
     public stopAllBackground(): void {
+        this.pendingBackground = null;
         this.backgroundSounds.forEach(sound => {
+            this.fades.delete(sound);
             sound.stop();
             console.log(`[SoundManager] Stopped background sound`);
         });
@@ -176,34 +498,19 @@ export class SoundManager {
 
     public dispose(): void {
         this.stopAllBackground();
+        this.sounds.forEach(pool => pool.handles.forEach(handle => handle.stop()));
+        this.emitters.forEach((_emitter, sound) => sound.setFilters([]));
+        this.emitters.clear();
+        this.attachments.clear();
         this.sounds.clear();
         console.log('[SoundManager] Cleared all sound effects');
         this.backgroundSounds.clear();
         console.log('[SoundManager] Cleared all background sounds');
     }
 
+    // Mutes the master bus; the bus volumes are kept for unmuting
     public muteAll(isMuted: boolean): void {
-        if (isMuted) {
-            this.sounds.forEach((sound) => {
-                sound.setVolume(0);
-            });
-            this.backgroundSounds.forEach((sound) => {
-                sound.setVolume(0);
-            });
-        } else {
-            this.sounds.forEach((sound, name) => {
-                const defaultVolume = this.defaultVolumes.get(name);
-                if (defaultVolume !== undefined) {
-                    sound.setVolume(defaultVolume);
-                }
-            });
-            this.backgroundSounds.forEach((sound, name) => {
-                const defaultVolume = this.defaultVolumes.get(name);
-                if (defaultVolume !== undefined) {
-                    sound.setVolume(defaultVolume);
-                }
-            });
-        }
+        this.mixer.setMuted(isMuted);
         console.log(`[SoundManager] All sounds ${isMuted ? 'muted' : 'unmuted'}`);
     }
 }
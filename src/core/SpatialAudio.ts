@@ -0,0 +1,55 @@
+// src/core/SpatialAudio.ts
+import * as THREE from 'three';
+import { rampParam } from './AudioEffects';
+
+/**
+ * How a sound follows the object it is attached to. Both curves take screen units, the same for
+ * either camera: x runs from -1 at the left edge to 1 at the right edge, and distance is how far
+ * the object is from the centre of the screen (1 = an edge, more = off screen).
+ * Our camera is orthographic, so depth doesn't change a thing; only where the object is drawn does.
+ */
+export interface SpatialCurves {
+    pan: (x: number) => number; // -1 (left speaker only) .. 1 (right speaker only)
+    gain: (distance: number) => number; // 0..1, on top of the sound's own volume
+}
+
+// Straight line from the centre; `width` below 1 keeps something in both ears at the edges
+export function linearPan(width: number): (x: number) => number {
+    return x => THREE.MathUtils.clamp(x, -1, 1) * width;
+}
+
+// Full volume up to `refDistance`, then the Web Audio 'inverse' roll-off: halved at refDistance * (1 + 1 / rolloff)
+export function inverseDistance(refDistance: number, rolloff: number): (distance: number) => number {
+    return distance => refDistance / (refDistance + rolloff * Math.max(0, distance - refDistance));
+}
+
+// Everything on screen at full volume, panned most of the way; things walking off screen fade out
+export const DEFAULT_SPATIAL_CURVES: SpatialCurves = {
+    pan: linearPan(0.8),
+    gain: inverseDistance(1, 1.5)
+};
+
+/**
+ * A StereoPannerNode and a GainNode to put between a sound's source and its volume
+ * (THREE.Audio.setFilters), driven by where an object shows up through the camera.
+ */
+export class SoundEmitter {
+    public readonly nodes: AudioNode[];
+    private panner: StereoPannerNode;
+    private attenuation: GainNode;
+    private position = new THREE.Vector3();
+
+    constructor(private context: BaseAudioContext, public object: THREE.Object3D, public curves: SpatialCurves) {
+        this.panner = context.createStereoPanner();
+        this.attenuation = context.createGain();
+        this.nodes = [this.panner, this.attenuation];
+    }
+
+    // Moves the pan and gain to where the object is now, over `rampSeconds` so motion doesn't zipper
+    public update(camera: THREE.Camera, rampSeconds: number): void {
+        this.object.getWorldPosition(this.position).project(camera);
+        const distance = Math.hypot(this.position.x, this.position.y);
+        rampParam(this.panner.pan, THREE.MathUtils.clamp(this.curves.pan(this.position.x), -1, 1), this.context, rampSeconds);
+        rampParam(this.attenuation.gain, THREE.MathUtils.clamp(this.curves.gain(distance), 0, 1), this.context, rampSeconds);
+    }
+}
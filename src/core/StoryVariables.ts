@@ -0,0 +1,136 @@
+// src/core/StoryVariables.ts
+
+// Well-known keys used by the scenes, so branches don't depend on scattered string literals
+export const StoryKeys = {
+    notebookClosed: 'cena1.notebook_closed',
+    postsScrolled: 'cena2.posts_scrolled',
+    galleryChoice: 'cena3.selected_character'
+} as const;
+
+export type StoryVariableKind = 'flag' | 'counter' | 'string';
+
+export interface StoryVariableChange {
+    kind: StoryVariableKind;
+    key: string;
+    value: boolean | number | string | undefined;
+    previous: boolean | number | string | undefined;
+}
+
+export interface StoryVariablesSnapshot {
+    flags: { [key: string]: boolean };
+    counters: { [key: string]: number };
+    strings: { [key: string]: string };
+}
+
+export class StoryVariables {
+    private flags: Map<string, boolean> = new Map();
+    private counters: Map<string, number> = new Map();
+    private strings: Map<string, string> = new Map();
+    private changeListeners: Array<(change: StoryVariableChange) => void> = [];
+
+    // --- Flags ---
+
+    public getFlag(key: string, defaultValue: boolean = false): boolean {
+        return this.flags.get(key) ?? defaultValue;
+    }
+
+    public setFlag(key: string, value: boolean = true): void {
+        const previous = this.flags.get(key);
+        if (previous === value) return;
+        this.flags.set(key, value);
+        this.notify({ kind: 'flag', key, value, previous });
+    }
+
+    // --- Counters ---
+
+    public getCounter(key: string, defaultValue: number = 0): number {
+        return this.counters.get(key) ?? defaultValue;
+    }
+
+    public setCounter(key: string, value: number): void {
+        const previous = this.counters.get(key);
+        if (previous === value) return;
+        this.counters.set(key, value);
+        this.notify({ kind: 'counter', key, value, previous });
+    }
+
+    public increment(key: string, amount: number = 1): number {
+        const value = this.getCounter(key) + amount;
+        this.setCounter(key, value);
+        return value;
+    }
+
+    // --- Strings ---
+
+    public getString(key: string): string | undefined;
+    public getString(key: string, defaultValue: string): string;
+    public getString(key: string, defaultValue?: string): string | undefined {
+        return this.strings.get(key) ?? defaultValue;
+    }
+
+    public setString(key: string, value: string): void {
+        const previous = this.strings.get(key);
+        if (previous === value) return;
+        this.strings.set(key, value);
+        this.notify({ kind: 'string', key, value, previous });
+    }
+
+    // --- Events ---
+
+    // Returns a function that removes the listener again
+    public onChange(listener: (change: StoryVariableChange) => void): () => void {
+        this.changeListeners.push(listener);
+        return () => {
+            this.changeListeners = this.changeListeners.filter(l => l !== listener);
+        };
+    }
+
+    // --- Serialization ---
+
+    public toSnapshot(): StoryVariablesSnapshot {
+        const snapshot: StoryVariablesSnapshot = { flags: {}, counters: {}, strings: {} };
+        this.flags.forEach((value, key) => snapshot.flags[key] = value);
+        this.counters.forEach((value, key) => snapshot.counters[key] = value);
+        this.strings.forEach((value, key) => snapshot.strings[key] = value);
+        return snapshot;
+    }
+
+    // Replaces every variable; listeners are notified for each value that actually changed
+    public restoreSnapshot(snapshot: StoryVariablesSnapshot): void {
+        this.replace('flag', this.flags, snapshot.flags);
+        this.replace('counter', this.counters, snapshot.counters);
+        this.replace('string', this.strings, snapshot.strings);
+    }
+
+    public clear(): void {
+        this.restoreSnapshot({ flags: {}, counters: {}, strings: {} });
+    }
+
+    private replace<T extends boolean | number | string>(
+        kind: StoryVariableKind,
+        target: Map<string, T>,
+        values: { [key: string]: T }
+    ): void {
+        const previous = new Map(target);
+        target.clear();
+        for (const key in values) {
+            if (Object.prototype.hasOwnProperty.call(values, key)) {
+                target.set(key, values[key]);
+            }
+        }
+
+        const keys = new Set<string>([...previous.keys(), ...target.keys()]);
+        keys.forEach(key => {
+            if (previous.get(key) !== target.get(key)) {
+                this.notify({ kind, key, value: target.get(key), previous: previous.get(key) });
+            }
+        });
+    }
+
+    private notify(change: StoryVariableChange): void {
+        console.log(`[StoryVariables] ${change.kind} "${change.key}" = ${change.value}`);
+        for (const listener of this.changeListeners) {
+            listener(change);
+        }
+    }
+}
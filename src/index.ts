@@ -3,6 +3,11 @@ import { Cena1TrabalhoScene } from './scenes/Cena1TrabalhoScene';
 import { Cena2RuaScene } from './scenes/Cena2RuaScene';
 import { Cena3GaleriaScene } from './scenes/Cena3GaleriaScene';
 import { StartMenuScene } from './scenes/StartMenuScene';
+import { PauseMenuScene } from './scenes/PauseMenuScene';
+import { DecisionOverlayScene } from './scenes/DecisionOverlayScene';
+import { PhoneFeedScene } from './scenes/PhoneFeedScene';
+import { MissingSceneScene } from './scenes/MissingSceneScene';
+import { LoadingScene } from './scenes/LoadingScene';
 import { injectSpeedInsights } from '@vercel/speed-insights';
 import { inject } from '@vercel/analytics';
 
@@ -20,18 +25,27 @@ if (!canvas) {
 console.log("Initializing Game Engine...");
 const gameEngine = new GameEngine(canvas);
 
-const startMenuScene = new StartMenuScene(gameEngine, gameEngine.assetLoader, gameEngine.sceneManager);
-const cena1TrabalhoScene = new Cena1TrabalhoScene(gameEngine, gameEngine.assetLoader, gameEngine.sceneManager);
-const cena2RuaScene = new Cena2RuaScene(gameEngine, gameEngine.assetLoader, gameEngine.sceneManager);
-const cena3GaleriaScene = new Cena3GaleriaScene(gameEngine, gameEngine.assetLoader, gameEngine.sceneManager);
-
-// 4. Add Scenes to the Scene Manager
-gameEngine.sceneManager.addScene('start_menu', startMenuScene);
-gameEngine.sceneManager.addScene('cena1_trabalho', cena1TrabalhoScene);
-gameEngine.sceneManager.addScene('cena2_rua', cena2RuaScene);
-gameEngine.sceneManager.addScene('cena3_galeria', cena3GaleriaScene);
+// 4. Register Scenes with the Scene Manager (each is constructed the first time it's entered)
+gameEngine.sceneManager.registerScene('start_menu', StartMenuScene);
+gameEngine.sceneManager.registerScene('cena1_trabalho', Cena1TrabalhoScene);
+gameEngine.sceneManager.registerScene('cena2_rua', Cena2RuaScene);
+gameEngine.sceneManager.registerScene('cena3_galeria', Cena3GaleriaScene);
+gameEngine.sceneManager.registerScene('pause_menu', PauseMenuScene); // Overlay, pushed with Escape
+gameEngine.sceneManager.registerScene('phone_feed', PhoneFeedScene); // Overlay, pushed by cena2_rua
+gameEngine.sceneManager.registerScene('decision_overlay', DecisionOverlayScene); // Overlay, pushed by cena3_galeria
+gameEngine.sceneManager.registerScene('scene_missing', MissingSceneScene);
+gameEngine.sceneManager.registerScene('loading', LoadingScene);
+gameEngine.sceneManager.setFallbackScene('scene_missing'); // Shown when an exit points at an unregistered scene
+gameEngine.sceneManager.setLoadingScene('loading'); // Shown while the next scene's assets download
 
 // 6. Start the Game Engine's Main Loop
 await gameEngine.start();
 
-console.log('AION Game Engine started.');
\ No newline at end of file
+console.log('AION Game Engine started.');
+
+// 7. Cache the game for offline play. Also runs on the dev server: localhost counts as a secure origin.
+if ('serviceWorker' in navigator) {
+    navigator.serviceWorker.register('service-worker.js').catch(error => {
+        console.warn('Service worker registration failed:', error);
+    });
+}
\ No newline at end of file
@@ -1,6 +1,8 @@
 import * as THREE from 'three';
 import { Easing } from '../utils/Easing';
 import { GameEngine } from '../core/GameEngine';
+import { AtlasId } from '../utils/AssetManifest';
+import { setTextureFlipX } from '../utils/TextureAtlas';
 
 export abstract class WalkingCharacter {
     protected gameEngine: GameEngine;
@@ -19,6 +21,10 @@ export abstract class WalkingCharacter {
     protected baseY: number;
     protected lastStepSound: number = 0;
     protected gender: 'male' | 'female';
+    // Where the character's frames come from, and which of them make up each animation
+    protected abstract readonly atlasId: AtlasId;
+    protected abstract readonly walkFrames: readonly string[];
+    protected abstract readonly backFrames: readonly string[];
 
     constructor(
         gameEngine: GameEngine,
@@ -37,15 +43,15 @@ export abstract class WalkingCharacter {
         this.gameEngine = gameEngine;
 
         // Load sounds
-        this.gameEngine.soundManager.loadSound('step1', 'assets/sounds/step_1.mp3');
-        this.gameEngine.soundManager.loadSound('step2', 'assets/sounds/step_2.mp3');
-        this.gameEngine.soundManager.loadSound('male_hurt', 'assets/cena_3_galeria/sounds/male_hurt.mp3');
-        this.gameEngine.soundManager.loadSound('female_hurt', 'assets/cena_3_galeria/sounds/female_hurt.mp3');
-        this.gameEngine.soundManager.loadSound('surprise1', 'assets/cena_3_galeria/sounds/surprise_1.mp3');
-        this.gameEngine.soundManager.loadSound('surprise2', 'assets/cena_3_galeria/sounds/surprise_2.mp3');
-        this.gameEngine.soundManager.loadSound('surprise3', 'assets/cena_3_galeria/sounds/surprise_3.mp3');
-        this.gameEngine.soundManager.loadSound('surprise4', 'assets/cena_3_galeria/sounds/surprise_4.mp3');
-        this.gameEngine.soundManager.loadSound('surprise5', 'assets/cena_3_galeria/sounds/surprise_5.mp3');
+        this.gameEngine.soundManager.loadSound('step1', 'characters.step_1');
+        this.gameEngine.soundManager.loadSound('step2', 'characters.step_2');
+        this.gameEngine.soundManager.loadSound('male_hurt', 'characters.male_hurt', false, 'voice');
+        this.gameEngine.soundManager.loadSound('female_hurt', 'characters.female_hurt', false, 'voice');
+        this.gameEngine.soundManager.loadSound('surprise1', 'characters.surprise_1', false, 'voice');
+        this.gameEngine.soundManager.loadSound('surprise2', 'characters.surprise_2', false, 'voice');
+        this.gameEngine.soundManager.loadSound('surprise3', 'characters.surprise_3', false, 'voice');
+        this.gameEngine.soundManager.loadSound('surprise4', 'characters.surprise_4', false, 'voice');
+        this.gameEngine.soundManager.loadSound('surprise5', 'characters.surprise_5', false, 'voice');
 
         const material = new THREE.SpriteMaterial({
             map: this.walkTextures[0] || new THREE.Texture(),
@@ -61,7 +67,11 @@ export abstract class WalkingCharacter {
         this.updateTextureFlip();
     }
 
-    protected abstract loadTextures(): Promise<void>;
+    protected async loadTextures(): Promise<void> {
+        const atlas = await this.gameEngine.assetLoader.loadAtlas(this.atlasId);
+        this.walkTextures = this.walkFrames.map(frame => atlas.frame(frame));
+        this.backTextures = this.backFrames.map(frame => atlas.frame(frame));
+    }
 
     public getSprite(): THREE.Sprite {
         return this.sprite;
@@ -69,7 +79,7 @@ export abstract class WalkingCharacter {
 
     public playHurtSound(): void {
         const sound = this.gender === 'male' ? 'male_hurt' : 'female_hurt';
-        this.gameEngine.soundManager.playSound(sound, 0.8);
+        this.gameEngine.soundManager.playSoundAt(sound, this.sprite, 0.8);
     }
 
     public update(deltaTime: number): void {
@@ -82,7 +92,7 @@ export abstract class WalkingCharacter {
                 this.sprite.position.x += this.speed * this.direction;
 
                 const stepSound = this.lastStepSound === 1 ? 'step2' : 'step1';
-                this.gameEngine.soundManager.playSound(stepSound, 0.3);
+                this.gameEngine.soundManager.playSoundAt(stepSound, this.sprite, 0.3);
                 this.lastStepSound = this.lastStepSound === 1 ? 2 : 1;
 
                 const bobPhase = this.walkCycle / this.walkTextures.length;
@@ -109,7 +119,7 @@ export abstract class WalkingCharacter {
                     this.updateTexture(this.walkTextures.length + backIndex);
 
                     const surpriseSound = `surprise${Math.floor(Math.random() * 5) + 1}`;
-                    this.gameEngine.soundManager.playSound(surpriseSound, 0.5);
+                    this.gameEngine.soundManager.playSoundAt(surpriseSound, this.sprite, 0.5);
                 }
             }
         } else {
@@ -137,14 +147,16 @@ export abstract class WalkingCharacter {
     protected updateTextureFlip(): void {
         const material = this.sprite.material as THREE.SpriteMaterial;
         if (material.map) {
-            material.map.repeat.x = this.isFlipped ? -1 : 1;
-            material.map.offset.x = this.isFlipped ? 1 : 0;
-            material.map.needsUpdate = true;
+            setTextureFlipX(material.map, this.isFlipped);
         }
     }
 }
 
 export class BobCharacter extends WalkingCharacter {
+    protected readonly atlasId = 'characters.bob';
+    protected readonly walkFrames = ['walk_1', 'walk_2', 'walk_3', 'walk_4'];
+    protected readonly backFrames = ['back_1', 'back_2'];
+
     constructor(
         startX: number,
         startY: number,
@@ -156,19 +168,6 @@ export class BobCharacter extends WalkingCharacter {
         super(gameEngine, startX, startY, speed, leftBound, rightBound, 'male');
     }
 
-    protected async loadTextures(): Promise<void> {
-        this.walkTextures = [
-            await this.gameEngine.assetLoader.loadTexture('assets/cena_3_galeria/bob_walk_1.png'),
-            await this.gameEngine.assetLoader.loadTexture('assets/cena_3_galeria/bob_walk_2.png'),
-            await this.gameEngine.assetLoader.loadTexture('assets/cena_3_galeria/bob_walk_3.png'),
-            await this.gameEngine.assetLoader.loadTexture('assets/cena_3_galeria/bob_walk_4.png')
-        ];
-        this.backTextures = [
-            await this.gameEngine.assetLoader.loadTexture('assets/cena_3_galeria/bob_back_1.png'),
-            await this.gameEngine.assetLoader.loadTexture('assets/cena_3_galeria/bob_back_2.png')
-        ];
-    }
-
     public static async create(
 gameEngine: GameEngine,
         startX: number = 0,
@@ -184,6 +183,10 @@ gameEngine: GameEngine,
 }
 
 export class MartaCharacter extends WalkingCharacter {
+    protected readonly atlasId = 'characters.marta';
+    protected readonly walkFrames = ['walk_1', 'walk_2'];
+    protected readonly backFrames = ['back_1'];
+
     constructor(
         startX: number,
         startY: number,
@@ -195,16 +198,6 @@ export class MartaCharacter extends WalkingCharacter {
         super(gameEngine, startX, startY, speed, leftBound, rightBound, 'female');
     }
 
-    protected async loadTextures(): Promise<void> {
-        this.walkTextures = [
-            await this.gameEngine.assetLoader.loadTexture('assets/cena_3_galeria/marta_walk_1.png'),
-            await this.gameEngine.assetLoader.loadTexture('assets/cena_3_galeria/marta_walk_2.png')
-        ];
-        this.backTextures = [
-            await this.gameEngine.assetLoader.loadTexture('assets/cena_3_galeria/marta_back_1.png')
-        ];
-    }
-
     public static async create(
         gameEngine: GameEngine,
         startX: number = 0,
@@ -1,21 +1,34 @@
 // src/scenes/Cena1TrabalhoScene.ts
 import * as THREE from 'three';
 
-import { Scene } from '../core/Scene';
+import { Scene, SceneBackgroundSound } from '../core/Scene';
 import { AssetLoader } from '../utils/AssetLoader';
-import { SceneManager } from '../core/SceneManager';
+import { AssetBundle } from '../utils/AssetBundle';
+import { SceneManager, SceneChangeToken } from '../core/SceneManager';
 import { GameEngine } from '../core/GameEngine';
 import { VisualEffectManager, DustMotesEffect, CoffeeSteamEffect } from '../utils/VisualEffectManager';
+import { StoryKeys } from '../core/StoryVariables';
+import { ScenePayloads } from '../core/ScenePayloads';
 
 
 export class Cena1TrabalhoScene extends Scene {
+    public static readonly exits = ['cena2_rua'];
+    public static readonly bundles = ['cena1'] as const;
+    public static readonly backgroundSounds: readonly SceneBackgroundSound[] = [
+        // Quiet recordings, mixed up to where they sat before volumes were capped at 1
+        { name: 'city_ambient', audio: 'cena1.city_ambient', volume: 1.0, trim: 3 },
+        { name: 'ac_ambient', audio: 'cena1.ac_ambient', volume: 1.0, trim: 3 }
+    ];
+    public readonly reentryPolicy = 'reset';
     private assetLoader: AssetLoader;
     private sceneManager: SceneManager;
+    private assets: AssetBundle<'cena1'> | null = null;
     private backgroundSprite: THREE.Sprite | null = null;
     private notebookSprite: THREE.Sprite | null = null;
     private notebookOpenTexture: THREE.Texture | null = null;
     private notebookClosedTexture: THREE.Texture | null = null;
     private isNotebookOpen: boolean = true;
+    private leaveToken: SceneChangeToken | null = null; // Scheduled move to the street, cancelled by reopening the notebook
     private dustMotesEffect: DustMotesEffect | null = null;
     private coffeeSteamEffect: CoffeeSteamEffect | null = null; // Add coffee steam effect property
     private performanceData: { [key: string]: number } = {};
@@ -48,47 +61,42 @@ export class Cena1TrabalhoScene extends Scene {
     async init(): Promise<void> {
         try {
             console.log("Cena1TrabalhoScene initializing...");
+            const assets = await this.assetLoader.loadBundle('cena1');
+            this.assets = assets; // Held until dispose()
 
             // Load the custom font for UI messages
 
 
-            // Load sounds
-            await this.gameEngine.soundManager.loadSound(
-                'city_ambient',
-                'cena_1_trabalho/sounds/city_ambient.mp3',
-                true
-            );
-
-            await this.gameEngine.soundManager.loadSound(
-                'ac_ambient',
-                'cena_1_trabalho/sounds/ac_ambient.mp3',
-                true
-            );
-
+            // Load sounds (the ambience loops are loaded by SceneManager with the bundle)
+            // The lid recordings are much quieter than the rest and need the extra trim
             await this.gameEngine.soundManager.loadSound(
                 'lid_open',
-                'cena_1_trabalho/sounds/lid_open.mp3'
+                'cena1.lid_open',
+                false,
+                'sfx',
+                { trim: 5 }
             );
 
             await this.gameEngine.soundManager.loadSound(
                 'lid_close',
-                'cena_1_trabalho/sounds/lid_close.mp3'
+                'cena1.lid_close',
+                false,
+                'sfx',
+                { trim: 5 }
             );
 
-            // Load assets (background, notebook textures)
+            // Load assets (background, then the notebook and interactables from the desk atlas)
             console.log('Loading background texture...');
-            const backgroundTexture = await this.assetLoader.loadTexture('cena_1_trabalho/background.png');
+            const backgroundTexture = assets.texture('cena1.background');
+            const desk = assets.atlas('cena1.desk');
 
-            console.log('Loading notebook open texture...');
-            this.notebookOpenTexture = await this.assetLoader.loadTexture('cena_1_trabalho/notebook_aberto.png');
+            this.notebookOpenTexture = desk.frame('notebook_aberto');
+            this.notebookClosedTexture = desk.frame('notebook_fechado');
 
-            console.log('Loading notebook closed texture...');
-            this.notebookClosedTexture = await this.assetLoader.loadTexture('cena_1_trabalho/notebook_fechado.png');
-
-            // Load textures for new interactables
-            this.coffeeMugTexture = await this.assetLoader.loadTexture('assets/cena_1_trabalho/coffee_mug.png');
-            this.penTexture = await this.assetLoader.loadTexture('assets/cena_1_trabalho/pen.png');
-            this.papersTexture = await this.assetLoader.loadTexture('assets/cena_1_trabalho/papers.png');
+            // Textures for new interactables
+            this.coffeeMugTexture = desk.frame('coffee_mug');
+            this.penTexture = desk.frame('pen');
+            this.papersTexture = desk.frame('papers');
 
             // Create background sprite using base class method
             this.backgroundSprite = this.createBackground(backgroundTexture);
@@ -147,15 +155,37 @@ export class Cena1TrabalhoScene extends Scene {
         }
     }
 
-    async onEnter(): Promise<void> {
-        // Play ambient sounds
-        await this.gameEngine.soundManager.playBackground('city_ambient', 3.0);
-        await this.gameEngine.soundManager.playBackground('ac_ambient', 3.0);
+    async reset(): Promise<void> {
+        // Every visit starts at the desk with the notebook open
+        if (this.leaveToken) {
+            this.leaveToken.cancel();
+            this.leaveToken = null;
+        }
+        this.isNotebookOpen = true;
+        if (this.notebookSprite && this.notebookOpenTexture) {
+            const material = this.notebookSprite.material as THREE.SpriteMaterial;
+            material.map = this.notebookOpenTexture;
+            material.needsUpdate = true;
+        }
+    }
+
+    dispose(): void {
+        this.assets?.release();
+        this.assets = null;
+    }
+
+    async onEnter(payload?: ScenePayloads['cena1_trabalho']): Promise<void> {
+        // Coming back from the street instead of starting the day
+        if (payload?.reason === 'back_to_work') {
+            const message = payload.postsScrolled
+                ? `${payload.postsScrolled} posts depois, de volta à mesa.`
+                : "De volta à mesa.";
+            await this.gameEngine.uiManager.showMessage(message, 2500, new THREE.Vector3(0, 1, 1));
+        }
     }
 
     async onExit(): Promise<void> {
-        // Stop sounds before changing scene
-        this.gameEngine.soundManager.stopAllBackground();
+        // The ambience fades out with the transition (SceneManager)
     }
 
     private setupDustMotes(): void {
@@ -198,17 +228,28 @@ export class Cena1TrabalhoScene extends Scene {
         material.needsUpdate = true;
 
         if (this.isNotebookOpen) {
-            await this.gameEngine.soundManager.playSound('lid_open', 5);
+            // Changed our mind before the delayed transition kicked in: stay at work
+            if (this.leaveToken) {
+                this.leaveToken.cancel();
+                this.leaveToken = null;
+            }
+            this.gameEngine.soundManager.playSound('lid_open', 1.0);
         } else {
-            await this.gameEngine.soundManager.playSound('lid_close', 5);
+            this.gameEngine.soundManager.playSound('lid_close', 1.0);
         }
 
         // Transition to next scene when closing notebook
         if (!this.isNotebookOpen) {
             console.log('Preparing to transition to street scene...');
+            this.gameEngine.gameState.variables.setFlag(StoryKeys.notebookClosed, true);
 
             if (this.sceneManager) {
-                await this.sceneManager.changeScene('cena2_rua', 'glitch', 2000);
+                const token = new SceneChangeToken();
+                this.leaveToken = token;
+                await this.sceneManager.changeScene('cena2_rua', 'glitch', 2000, { token });
+                if (this.leaveToken === token) {
+                    this.leaveToken = null;
+                }
             }
         }
     }
@@ -224,18 +265,21 @@ export class Cena1TrabalhoScene extends Scene {
             console.log('Notebook clicked - toggling');
             await this.toggleNotebook();
         } else if (clickedObject.name === "CoffeeMug") {
+            this.gameEngine.characterManager.markNoteSeen('coffee_mug');
             const messageSpriteCoffee = await this.gameEngine.uiManager.showMessage("Mais uma xícara...", 2000, new THREE.Vector3(2, -0.5, 1)); // Example 3D position
             if (messageSpriteCoffee) {
                 this.threeScene.add(messageSpriteCoffee);
             }
             // Add more complex interaction here later if needed
         } else if (clickedObject.name === "Pen") {
+            this.gameEngine.characterManager.markNoteSeen('pen');
             const messageSpritePen = await this.gameEngine.uiManager.showMessage("Linhas no papel, imaginando outros lugares.", 2000, new THREE.Vector3(-1, -2, 1)); // Example 3D position
             if (messageSpritePen) {
                 this.threeScene.add(messageSpritePen);
             }
             // Add more complex interaction here later if needed
         } else if (clickedObject.name === "Papers") {
+            this.gameEngine.characterManager.markNoteSeen('papers');
             const messageSpritePapers = await this.gameEngine.uiManager.showMessage("Cada folha um dia igual ao outro.", 2000, new THREE.Vector3(3, -1, 1)); // Example 3D position
             if (messageSpritePapers) {
                 this.threeScene.add(messageSpritePapers);
@@ -1,22 +1,42 @@
 
 import * as THREE from 'three';
-import { Scene } from '../core/Scene';
+import { Scene, SceneBackgroundSound } from '../core/Scene';
 import { AssetLoader } from '../utils/AssetLoader';
+import { AssetBundle } from '../utils/AssetBundle';
 import { SceneManager } from '../core/SceneManager';
 import { GameEngine } from '../core/GameEngine';
 import { HologramHelper } from '../utils/HologramHelper';
+import { CanvasText } from '../utils/CanvasText';
 import { BobCharacter, MartaCharacter, WalkingCharacter } from '../objects/WalkingCharacter';
+import { StoryKeys } from '../core/StoryVariables';
+import { DecisionIds } from '../core/ChoiceLog';
+import { DecisionOption, ScenePayload } from '../core/ScenePayloads';
+
+// Handed to the decision overlay; the ids are what galleryChoice stores
+const NEXT_CHARACTER_OPTIONS: readonly DecisionOption[] = [
+    { id: 'kairos', label: 'KAIROS', image: 'cena3.select_kairos' },
+    { id: 'other_character', label: 'OTHER', image: 'cena3.select_other' }
+];
 
 export class Cena3GaleriaScene extends Scene {
+    public static readonly exits = ['cena_kairos', 'cena_other'];
+    // The three GLB props are the slow part, hence preloading the gallery from the street
+    public static readonly bundles = ['cena3', 'characters'] as const;
+    public static readonly backgroundSounds: readonly SceneBackgroundSound[] = [
+        { name: 'gallery_ambient_2', audio: 'cena3.gallery_ambient_2', volume: 0.3 },
+        // Attached to the vitrola in init(), so it comes from the right of the room
+        { name: 'vitrola', audio: 'cena2.jazz', volume: 0.4, bus: 'music' }
+    ];
+    public readonly reentryPolicy = 'reset';
     private assetLoader: AssetLoader;
     private sceneManager: SceneManager;
+    private assets: AssetBundle<'cena3'> | null = null;
     private backgroundSprite: THREE.Sprite | null = null;
     private characterSprites: THREE.Sprite[] = [];
     private bobCharacter: WalkingCharacter | null = null;
     private martaCharacter: WalkingCharacter | null = null;
-    private decisionButtons: THREE.Sprite[] = [];
-    private buttonTextures: THREE.Texture[] = [];
-    private currentSelection: number = -1;
+    private decideButton: THREE.Sprite | null = null; // Opens the decision overlay
+    private hasChosen: boolean = false;
     private plantaPack: THREE.Object3D | null = null;
     private mesaPack: THREE.Object3D | null = null;
     private vitrolaPack: THREE.Object3D | null = null;
@@ -45,8 +65,11 @@ export class Cena3GaleriaScene extends Scene {
         console.log("Cena3GaleriaScene initializing...");
 
         try {
+            const assets = await this.assetLoader.loadBundle('cena3');
+            this.assets = assets; // Held until dispose()
+
             // Load 3D models
-            this.plantaPack = await this.assetLoader.loadModel('cena_3_galeria/planta-cc.glb');
+            this.plantaPack = assets.model('cena3.planta');
             this.plantaPack.position.set(0, -1.5, 1);
             this.plantaPack.scale.set(3, 3, 3);
             if (this.plantaPack) {
@@ -54,7 +77,7 @@ export class Cena3GaleriaScene extends Scene {
             }
             this.threeScene.add(this.plantaPack);
 
-            this.mesaPack = await this.assetLoader.loadModel('cena_3_galeria/mesa-cc.glb');
+            this.mesaPack = assets.model('cena3.mesa');
             if (this.mesaPack) {
                 HologramHelper.applyHologramShader(this.mesaPack);
                 this.mesaPack.position.set(-5, -1.5, 1);
@@ -62,12 +85,13 @@ export class Cena3GaleriaScene extends Scene {
                 this.threeScene.add(this.mesaPack);
             }
 
-            this.vitrolaPack = await this.assetLoader.loadModel('cena_3_galeria/vitrola-cc.glb');
+            this.vitrolaPack = assets.model('cena3.vitrola');
             if (this.vitrolaPack) {
                 HologramHelper.applyHologramShader(this.vitrolaPack);
                 this.vitrolaPack.position.set(5, -1.5, 1);
                 this.vitrolaPack.scale.set(3, 3, 3);
                 this.threeScene.add(this.vitrolaPack);
+                this.gameEngine.soundManager.attachSound('vitrola', this.vitrolaPack);
             }
 
             // Add lights
@@ -79,7 +103,7 @@ export class Cena3GaleriaScene extends Scene {
             this.threeScene.add(directionalLight);
 
             // Load background
-            const backgroundTexture = await this.assetLoader.loadTexture('assets/cena_3_galeria/background.png');
+            const backgroundTexture = assets.texture('cena3.background');
             this.backgroundSprite = this.createBackground(backgroundTexture);
 
             // Load character textures
@@ -97,34 +121,22 @@ export class Cena3GaleriaScene extends Scene {
             this.martaCharacter = await MartaCharacter.create(this.gameEngine, 2, -2, 0.10, -5, 5);
             this.threeScene.add(this.martaCharacter.getSprite());
 
-            // Load decision button textures
-            this.buttonTextures = [
-                await this.assetLoader.loadTexture('assets/cena_3_galeria/select_kairos.png'),
-                await this.assetLoader.loadTexture('assets/cena_3_galeria/select_other.png')
-            ];
-
-            // Create decision buttons
-            for (let i = 0; i < this.buttonTextures.length; i++) {
-                const button = this.createDecisionButton(this.buttonTextures[i], i);
-                this.decisionButtons.push(button);
-                button.visible = false;
-            }
-
-            // Load sounds
-            await this.gameEngine.soundManager.loadSound(
-                'gallery_ambient_2',
-                'cena_3_galeria/sounds/gallery_ambient_2.mp3',
-                true
-            );
+            // Drawn as text until it gets art of its own
+            this.decideButton = this.createDecideButton(CanvasText.createTexture('DECIDE', '#00f0ff', 110, 512));
+            this.decideButton.visible = false;
 
-            // Load hurt sounds
+            // Load hurt sounds (the ambience is loaded by SceneManager with the bundles)
             await this.gameEngine.soundManager.loadSound(
                 'male_hurt',
-                'assets/cena_3_galeria/sounds/male_hurt.mp3'
+                'characters.male_hurt',
+                false,
+                'voice'
             );
             await this.gameEngine.soundManager.loadSound(
                 'female_hurt',
-                'assets/cena_3_galeria/sounds/female_hurt.mp3'
+                'characters.female_hurt',
+                false,
+                'voice'
             );
 
             console.log("Cena3GaleriaScene initialized.");
@@ -158,7 +170,7 @@ export class Cena3GaleriaScene extends Scene {
         return sprite;
     }
 
-    private createDecisionButton(texture: THREE.Texture, index: number): THREE.Sprite {
+    private createDecideButton(texture: THREE.Texture): THREE.Sprite {
         const material = new THREE.SpriteMaterial({
             map: texture,
             transparent: true,
@@ -166,23 +178,50 @@ export class Cena3GaleriaScene extends Scene {
         });
         const button = new THREE.Sprite(material);
         button.scale.set(2, 1, 1);
-        button.position.set(index === 0 ? -3 : 3, -3, 0.2);
-        button.name = `DecisionButton${index}`;
+        button.position.set(0, -3, 0.2);
+        button.name = "DecideButton";
         this.threeScene.add(button);
         return button;
     }
 
+    async reset(): Promise<void> {
+        // Nothing picked yet; onEnter shows the decide button again after a moment
+        this.hasChosen = false;
+        if (this.decideButton) {
+            this.decideButton.visible = false;
+        }
+        this.currentRotationVelocityYPlanta = 0;
+        this.currentRotationVelocityXPlanta = 0;
+        this.currentRotationVelocityYMesa = 0;
+        this.currentRotationVelocityXMesa = 0;
+        this.currentRotationVelocityYVitrola = 0;
+        this.currentRotationVelocityXVitrola = 0;
+    }
+
+    dispose(): void {
+        this.gameEngine.soundManager.detachSound('vitrola');
+        this.assets?.release();
+        this.assets = null;
+    }
+
     async onEnter(): Promise<void> {
-        await this.gameEngine.soundManager.playBackground('gallery_ambient_2', 0.3);
         setTimeout(() => {
-            this.decisionButtons.forEach(button => {
-                button.visible = true;
-            });
+            if (this.decideButton && !this.hasChosen) {
+                this.decideButton.visible = true;
+            }
         }, 2000);
     }
 
+    // Back from the decision overlay; without a choice the player keeps looking around
+    onResume(payload?: ScenePayload): void {
+        const choice = typeof payload?.choice === 'string' ? payload.choice : null;
+        if (choice) {
+            this.transitionToNextScene(choice);
+        }
+    }
+
     async onExit(): Promise<void> {
-        this.gameEngine.soundManager.stopAllBackground();
+        // The ambience fades out with the transition (SceneManager)
     }
 
     update(deltaTime: number): void {
@@ -210,16 +249,6 @@ export class Cena3GaleriaScene extends Scene {
             this.performanceData['Marta Character'] = performance.now() - martaStartTime;
         }
 
-        // Update decision buttons
-        const buttonStartTime = performance.now();
-        this.decisionButtons.forEach((button, index) => {
-            const material = button.material as THREE.SpriteMaterial;
-            material.opacity = this.currentSelection === index ? 1 : 0.7;
-            material.needsUpdate = true;
-        });
-        this.performanceData['Decision Buttons'] = performance.now() - buttonStartTime;
-
-
         // Update shaders
         const shaderStartTime = performance.now();
         HologramHelper.updateShaderTime(this.plantaPack);
@@ -290,21 +319,22 @@ export class Cena3GaleriaScene extends Scene {
             this.martaCharacter.playHurtSound();
         }
 
-        // Handle button clicks
-        if (clickedObject.name === "DecisionButton0") {
-            this.currentSelection = 0;
-            await this.transitionToNextScene('kairos');
-        } else if (clickedObject.name === "DecisionButton1") {
-            this.currentSelection = 1;
-            await this.transitionToNextScene('other_character');
+        if (clickedObject.name === "DecideButton" && !this.hasChosen) {
+            await this.sceneManager.pushScene('decision_overlay', {
+                prompt: 'WHO NEXT?',
+                options: NEXT_CHARACTER_OPTIONS
+            });
         }
     }
 
     private async transitionToNextScene(character: string): Promise<void> {
         console.log(`Selected character: ${character}`);
-        this.decisionButtons.forEach(button => {
-            button.visible = false;
-        });
+        this.gameEngine.gameState.variables.setString(StoryKeys.galleryChoice, character);
+        this.gameEngine.gameState.recordChoice(DecisionIds.galleryNextCharacter, character);
+        this.hasChosen = true;
+        if (this.decideButton) {
+            this.decideButton.visible = false;
+        }
 
         if (this.sceneManager) {
             await this.sceneManager.changeScene(
@@ -0,0 +1,144 @@
+// src/scenes/DecisionOverlayScene.ts
+import * as THREE from 'three';
+import { Scene } from '../core/Scene';
+import { AssetLoader } from '../utils/AssetLoader';
+import { SceneManager } from '../core/SceneManager';
+import { GameEngine } from '../core/GameEngine';
+import { CanvasText } from '../utils/CanvasText';
+import { DecisionOption, PayloadFor, ScenePayload } from '../core/ScenePayloads';
+import { TextureId } from '../utils/AssetManifest';
+
+const DIMMED = { color: 0xbbbbbb }; // Text is drawn dimmed so buttons can brighten to white on hover
+
+// Overlay asking the player to pick one of the options in its payload. Pops with the picked
+// option's id as `choice` (see onExit), or without one if the player backs out.
+export class DecisionOverlayScene extends Scene {
+    public static readonly isOverlay = true;
+    private assetLoader: AssetLoader;
+    private sceneManager: SceneManager;
+    private dimPlane: THREE.Mesh | null = null;
+    private promptSprite: THREE.Sprite | null = null;
+    private buttons: THREE.Sprite[] = [];
+    private options: readonly DecisionOption[] = [];
+    private choice: string | null = null;
+    private isClosing: boolean = false;
+
+    constructor(gameEngine: GameEngine, assetLoader: AssetLoader, sceneManager: SceneManager) {
+        super(gameEngine);
+        this.assetLoader = assetLoader;
+        this.sceneManager = sceneManager;
+        console.log("DecisionOverlayScene created");
+    }
+
+    async init(): Promise<void> {
+        console.log("DecisionOverlayScene initializing...");
+
+        // Lighter than the pause menu: the scene being decided about stays visible
+        const camera = this.gameEngine.camera;
+        const dimGeometry = new THREE.PlaneGeometry(camera.right - camera.left, camera.top - camera.bottom);
+        const dimMaterial = new THREE.MeshBasicMaterial({
+            color: 0x05030a,
+            transparent: true,
+            opacity: 0.4,
+            depthTest: false
+        });
+        this.dimPlane = new THREE.Mesh(dimGeometry, dimMaterial);
+        this.dimPlane.position.set(0, 0, -0.5);
+        this.dimPlane.userData.isBackground = true;
+        this.threeScene.add(this.dimPlane);
+
+        // Custom cursor uses a Phong material, so the overlay needs some light of its own
+        this.threeScene.add(new THREE.AmbientLight(0xffffff, 1));
+
+        console.log("DecisionOverlayScene initialized.");
+    }
+
+    // The buttons are rebuilt on every push, so one overlay serves every decision in the game
+    async onEnter(payload?: PayloadFor<'decision_overlay'>): Promise<void> {
+        this.isClosing = false;
+        this.choice = null;
+        this.options = payload?.options ?? [];
+        if (this.options.length === 0) {
+            console.warn("DecisionOverlayScene: Pushed without options; only BACK is offered.");
+        }
+
+        if (payload?.prompt) {
+            this.promptSprite = CanvasText.createSprite(payload.prompt, '#ffcc00', 120, DIMMED);
+            this.promptSprite.scale.set(8, 2, 1);
+            this.promptSprite.position.set(0, 2, 0.1);
+            this.threeScene.add(this.promptSprite);
+        }
+
+        this.options.forEach((option, index) => {
+            const button = option.image ? this.createImageButton(option.image) : CanvasText.createSprite(option.label, '#00f0ff', 140, DIMMED);
+            if (!option.image) button.scale.set(4, 1, 1);
+            button.position.set((index - (this.options.length - 1) / 2) * 5, -0.5, 0.2);
+            button.name = `DecisionOption${index}`;
+            this.buttons.push(button);
+            this.threeScene.add(button);
+        });
+
+        const backButton = CanvasText.createSprite('BACK', '#00f0ff', 100, DIMMED);
+        backButton.scale.set(3, 0.75, 1);
+        backButton.position.set(0, -2.5, 0.2);
+        backButton.name = "BackButton";
+        this.buttons.push(backButton);
+        this.threeScene.add(backButton);
+    }
+
+    async onExit(): Promise<ScenePayload> {
+        for (const sprite of [...this.buttons, this.promptSprite]) {
+            if (!sprite) continue;
+            const material = sprite.material as THREE.SpriteMaterial;
+            // Option art belongs to the loader's cache; only the text is ours
+            if (material.map instanceof THREE.CanvasTexture) material.map.dispose();
+            material.dispose();
+            this.threeScene.remove(sprite);
+        }
+        this.buttons = [];
+        this.promptSprite = null;
+        return this.choice ? { choice: this.choice } : {};
+    }
+
+    update(): void {
+        // Static overlay
+    }
+
+    render(): void {
+        // No custom rendering needed
+    }
+
+    public async handleClick(intersects: THREE.Intersection[]): Promise<void> {
+        if (!intersects.length || this.isClosing) return;
+
+        const clickedObject = intersects[0].object;
+        const optionIndex = this.buttons.indexOf(clickedObject as THREE.Sprite);
+        if (clickedObject.name === "BackButton") {
+            this.isClosing = true;
+            await this.sceneManager.popScene();
+        } else if (optionIndex >= 0 && optionIndex < this.options.length) {
+            this.isClosing = true;
+            this.choice = this.options[optionIndex].id;
+            await this.sceneManager.popScene();
+        }
+    }
+
+    private createImageButton(image: TextureId): THREE.Sprite {
+        const button = new THREE.Sprite(new THREE.SpriteMaterial({
+            map: this.assetLoader.getTexture(image),
+            transparent: true,
+            depthTest: false,
+            ...DIMMED
+        }));
+        button.scale.set(4, 2, 1);
+        return button;
+    }
+
+    public handleMouseMove(intersects: THREE.Intersection[]): void {
+        for (const button of this.buttons) {
+            const material = button.material as THREE.SpriteMaterial;
+            const isHovering = intersects.some(i => i.object === button);
+            material.color.set(isHovering ? 0xffffff : 0xbbbbbb);
+        }
+    }
+}
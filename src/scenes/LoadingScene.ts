@@ -0,0 +1,169 @@
+// src/scenes/LoadingScene.ts
+import * as THREE from 'three';
+import { Scene } from '../core/Scene';
+import { AssetLoader, AssetLoadProgress } from '../utils/AssetLoader';
+import { SceneManager } from '../core/SceneManager';
+import { GameEngine } from '../core/GameEngine';
+import { CanvasText } from '../utils/CanvasText';
+import { ScenePayloads } from '../core/ScenePayloads';
+
+const BAR_WIDTH = 6;
+const BAR_HEIGHT = 0.12;
+
+// Shown by SceneManager while the next scene's assets download. Procedural, so it needs nothing loaded itself.
+export class LoadingScene extends Scene {
+    private assetLoader: AssetLoader;
+    private sceneManager: SceneManager;
+    private targetSceneId: string | null = null;
+    private titleMaterial: THREE.ShaderMaterial | null = null;
+    private barFill: THREE.Mesh | null = null;
+    private detailSprite: THREE.Sprite | null = null;
+    private detailText: string = '';
+    private displayedProgress: number = 0; // Eased towards the real value so the bar doesn't jump
+    private elapsed: number = 0;
+
+    constructor(gameEngine: GameEngine, assetLoader: AssetLoader, sceneManager: SceneManager) {
+        super(gameEngine);
+        this.assetLoader = assetLoader;
+        this.sceneManager = sceneManager;
+        console.log("LoadingScene created");
+    }
+
+    async init(): Promise<void> {
+        console.log("LoadingScene initializing...");
+        this.threeScene.background = new THREE.Color(0x05030a);
+
+        // Title with the same colour split and slice displacement as the glitch transition
+        this.titleMaterial = new THREE.ShaderMaterial({
+            uniforms: {
+                time: { value: 0.0 },
+                tText: { value: CanvasText.createTexture('LOADING', '#00f0ff', 180) }
+            },
+            vertexShader: `
+              varying vec2 vUv;
+              void main() {
+                vUv = uv;
+                gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+              }
+            `,
+            fragmentShader: `
+              uniform float time;
+              uniform sampler2D tText;
+              varying vec2 vUv;
+
+              float rand(vec2 co){
+                return fract(sin(dot(co.xy ,vec2(12.9898,78.233))) * 43758.5453);
+              }
+
+              void main() {
+                vec2 uv = vUv;
+                float burst = step(0.8, rand(vec2(floor(time * 8.0))));
+                float slice = floor(uv.y * 12.0);
+                uv.x += burst * (rand(vec2(slice, floor(time * 20.0))) - 0.5) * 0.08;
+
+                float shift = 0.004 + burst * 0.02;
+                vec4 base = texture2D(tText, uv);
+                float r = texture2D(tText, uv + vec2(shift, 0.0)).a;
+                float b = texture2D(tText, uv - vec2(shift, 0.0)).a;
+                float scanline = 0.85 + 0.15 * sin(uv.y * 240.0 + time * 6.0);
+
+                // Magenta and blue ghosts either side of the text
+                vec3 color = base.rgb * base.a
+                    + vec3(1.0, 0.0, 0.4) * r * (1.0 - base.a)
+                    + vec3(0.0, 0.4, 1.0) * b * (1.0 - base.a);
+                gl_FragColor = vec4(color * scanline, max(base.a, max(r, b) * 0.8));
+              }
+            `,
+            transparent: true,
+            depthTest: false
+        });
+        const title = new THREE.Mesh(new THREE.PlaneGeometry(8, 2), this.titleMaterial);
+        title.position.set(0, 1, 0);
+        this.threeScene.add(title);
+
+        const barFrame = new THREE.Mesh(
+            new THREE.PlaneGeometry(BAR_WIDTH, BAR_HEIGHT),
+            new THREE.MeshBasicMaterial({ color: 0x1a1030, depthTest: false })
+        );
+        barFrame.position.set(0, -0.5, 0);
+        this.threeScene.add(barFrame);
+
+        // Anchored at its left edge so scaling x fills it from the left
+        const fillGeometry = new THREE.PlaneGeometry(BAR_WIDTH, BAR_HEIGHT);
+        fillGeometry.translate(BAR_WIDTH / 2, 0, 0);
+        this.barFill = new THREE.Mesh(fillGeometry, new THREE.MeshBasicMaterial({ color: 0x00f0ff, depthTest: false }));
+        this.barFill.position.set(-BAR_WIDTH / 2, -0.5, 0.1);
+        this.barFill.scale.x = 0.0001;
+        this.threeScene.add(this.barFill);
+
+        console.log("LoadingScene initialized.");
+    }
+
+    async onEnter(payload?: ScenePayloads['loading']): Promise<void> {
+        this.targetSceneId = payload?.targetSceneId ?? null;
+        this.displayedProgress = 0;
+        this.detailText = '';
+        this.updateProgress();
+    }
+
+    async onExit(): Promise<void> {
+        this.targetSceneId = null;
+    }
+
+    update(deltaTime: number): void {
+        this.elapsed += deltaTime;
+        if (this.titleMaterial) {
+            this.titleMaterial.uniforms.time.value = this.elapsed;
+        }
+        this.updateProgress(deltaTime);
+    }
+
+    render(): void {
+        // No custom rendering needed
+    }
+
+    public async handleClick(): Promise<void> {
+        // Nothing to click while loading
+    }
+
+    private updateProgress(deltaTime: number = 0): void {
+        if (!this.targetSceneId) return;
+        const progress = this.sceneManager.getSceneLoadProgress(this.targetSceneId);
+
+        // Files count for the bar: textures only report their size once they are done, so bytes are shown as text only
+        const ratio = progress.totalItems === 0 ? 1 : progress.loadedItems / progress.totalItems;
+        this.displayedProgress += (ratio - this.displayedProgress) * Math.min(1, deltaTime * 8);
+        if (this.barFill) {
+            this.barFill.scale.x = Math.max(0.0001, this.displayedProgress);
+        }
+
+        const text = this.formatProgress(progress);
+        if (text !== this.detailText) {
+            this.detailText = text;
+            this.setDetailText(text);
+        }
+    }
+
+    private formatProgress(progress: AssetLoadProgress): string {
+        const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+        const bytes = progress.totalBytes > 0 ? `  ·  ${toMB(progress.loadedBytes)} / ${toMB(progress.totalBytes)} MB` : '';
+        return `${progress.loadedItems} / ${progress.totalItems}${bytes}`;
+    }
+
+    private setDetailText(text: string): void {
+        if (this.detailSprite) {
+            this.threeScene.remove(this.detailSprite);
+            this.detailSprite.material.map?.dispose();
+            this.detailSprite.material.dispose();
+        }
+        const material = new THREE.SpriteMaterial({
+            map: CanvasText.createTexture(text, '#bbbbbb', 70),
+            transparent: true,
+            depthTest: false
+        });
+        this.detailSprite = new THREE.Sprite(material);
+        this.detailSprite.scale.set(6, 1.5, 1);
+        this.detailSprite.position.set(0, -1.3, 0);
+        this.threeScene.add(this.detailSprite);
+    }
+}
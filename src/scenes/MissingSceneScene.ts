@@ -0,0 +1,96 @@
+// src/scenes/MissingSceneScene.ts
+import * as THREE from 'three';
+import { Scene } from '../core/Scene';
+import { AssetLoader } from '../utils/AssetLoader';
+import { SceneManager } from '../core/SceneManager';
+import { GameEngine } from '../core/GameEngine';
+import { CanvasText } from '../utils/CanvasText';
+import { ScenePayloads } from '../core/ScenePayloads';
+
+// Fallback shown when a transition targets a scene that isn't registered, instead of a black screen
+export class MissingSceneScene extends Scene {
+    public static readonly exits = ['start_menu'];
+    public readonly reentryPolicy = 'dispose'; // Rarely shown, so don't keep it around
+    private assetLoader: AssetLoader;
+    private sceneManager: SceneManager;
+    private detailSprite: THREE.Sprite | null = null;
+    private menuButton: THREE.Sprite | null = null;
+    private isLeaving: boolean = false;
+
+    constructor(gameEngine: GameEngine, assetLoader: AssetLoader, sceneManager: SceneManager) {
+        super(gameEngine);
+        this.assetLoader = assetLoader;
+        this.sceneManager = sceneManager;
+        console.log("MissingSceneScene created");
+    }
+
+    async init(): Promise<void> {
+        console.log("MissingSceneScene initializing...");
+        this.threeScene.background = new THREE.Color(0x05030a);
+
+        // Custom cursor uses a Phong material
+        this.threeScene.add(new THREE.AmbientLight(0xffffff, 1));
+
+        const title = CanvasText.createSprite('SCENE NOT FOUND', '#ff3366', 140);
+        title.scale.set(10, 2.5, 1);
+        title.position.set(0, 1.5, 0);
+        this.threeScene.add(title);
+
+        this.menuButton = CanvasText.createSprite('MAIN MENU', '#00f0ff', 140);
+        this.menuButton.scale.set(4, 1, 1);
+        this.menuButton.position.set(0, -1.5, 0.2);
+        this.menuButton.name = "MainMenuButton";
+        (this.menuButton.material as THREE.SpriteMaterial).color.set(0xbbbbbb); // Brightens on hover
+        this.threeScene.add(this.menuButton);
+
+        console.log("MissingSceneScene initialized.");
+    }
+
+    async onEnter(payload?: ScenePayloads['scene_missing']): Promise<void> {
+        this.isLeaving = false;
+
+        // Name the scene that was asked for, so the broken exit is easy to find
+        if (this.detailSprite) {
+            this.threeScene.remove(this.detailSprite);
+            (this.detailSprite.material as THREE.SpriteMaterial).map?.dispose();
+            this.detailSprite.material.dispose();
+        }
+        this.detailSprite = CanvasText.createSprite(`"${payload?.missingSceneId ?? 'unknown'}"`, '#ffcc00', 90);
+        this.detailSprite.scale.set(8, 2, 1);
+        this.detailSprite.position.set(0, 0, 0);
+        this.threeScene.add(this.detailSprite);
+    }
+
+    async onExit(): Promise<void> {
+        // Nothing to clean up; SceneManager disposes the scene once it's left
+    }
+
+    dispose(): void {
+        // SceneManager frees the sprites themselves
+        this.detailSprite = null;
+        this.menuButton = null;
+    }
+
+    update(): void {
+        // Static scene
+    }
+
+    render(): void {
+        // No custom rendering needed
+    }
+
+    public async handleClick(intersects: THREE.Intersection[]): Promise<void> {
+        if (!intersects.length || this.isLeaving) return;
+
+        if (intersects[0].object.name === "MainMenuButton") {
+            this.isLeaving = true;
+            await this.sceneManager.changeScene('start_menu', 'fade');
+        }
+    }
+
+    public handleMouseMove(intersects: THREE.Intersection[]): void {
+        if (!this.menuButton) return;
+        const isHovering = intersects.some(i => i.object === this.menuButton);
+        (this.menuButton.material as THREE.SpriteMaterial).color.set(isHovering ? 0xffffff : 0xbbbbbb);
+    }
+}
@@ -0,0 +1,107 @@
+// src/scenes/PauseMenuScene.ts
+import * as THREE from 'three';
+import { Scene } from '../core/Scene';
+import { AssetLoader } from '../utils/AssetLoader';
+import { SceneManager } from '../core/SceneManager';
+import { GameEngine } from '../core/GameEngine';
+import { CanvasText } from '../utils/CanvasText';
+
+const DIMMED = { color: 0xbbbbbb }; // Text is drawn dimmed so buttons can brighten to white on hover
+
+// Overlay pushed on top of the running scene (Escape), which keeps rendering paused underneath
+export class PauseMenuScene extends Scene {
+    public static readonly exits = ['start_menu'];
+    public static readonly isOverlay = true;
+    private assetLoader: AssetLoader;
+    private sceneManager: SceneManager;
+    private dimPlane: THREE.Mesh | null = null;
+    private buttons: THREE.Sprite[] = [];
+    private isClosing: boolean = false;
+
+    constructor(gameEngine: GameEngine, assetLoader: AssetLoader, sceneManager: SceneManager) {
+        super(gameEngine);
+        this.assetLoader = assetLoader;
+        this.sceneManager = sceneManager;
+        console.log("PauseMenuScene created");
+    }
+
+    async init(): Promise<void> {
+        console.log("PauseMenuScene initializing...");
+
+        // Darken the paused scene instead of drawing a background of our own
+        const camera = this.gameEngine.camera;
+        const dimGeometry = new THREE.PlaneGeometry(camera.right - camera.left, camera.top - camera.bottom);
+        const dimMaterial = new THREE.MeshBasicMaterial({
+            color: 0x05030a,
+            transparent: true,
+            opacity: 0.65,
+            depthTest: false
+        });
+        this.dimPlane = new THREE.Mesh(dimGeometry, dimMaterial);
+        this.dimPlane.position.set(0, 0, -0.5);
+        this.dimPlane.userData.isBackground = true;
+        this.threeScene.add(this.dimPlane);
+
+        // Custom cursor uses a Phong material, so the overlay needs some light of its own
+        this.threeScene.add(new THREE.AmbientLight(0xffffff, 1));
+
+        const title = CanvasText.createSprite('PAUSED', '#ffcc00', 200, DIMMED);
+        title.scale.set(8, 2, 1);
+        title.position.set(0, 2, 0.1);
+        this.threeScene.add(title);
+
+        const resumeButton = CanvasText.createSprite('RESUME', '#00f0ff', 140, DIMMED);
+        resumeButton.scale.set(4, 1, 1);
+        resumeButton.position.set(0, 0, 0.2);
+        resumeButton.name = "ResumeButton";
+        this.buttons.push(resumeButton);
+        this.threeScene.add(resumeButton);
+
+        const menuButton = CanvasText.createSprite('MAIN MENU', '#00f0ff', 140, DIMMED);
+        menuButton.scale.set(4, 1, 1);
+        menuButton.position.set(0, -1.5, 0.2);
+        menuButton.name = "MainMenuButton";
+        this.buttons.push(menuButton);
+        this.threeScene.add(menuButton);
+
+        console.log("PauseMenuScene initialized.");
+    }
+
+    async onEnter(): Promise<void> {
+        this.isClosing = false;
+    }
+
+    async onExit(): Promise<void> {
+        // Nothing to clean up; the overlay is reused next time
+    }
+
+    update(): void {
+        // Static overlay
+    }
+
+    render(): void {
+        // No custom rendering needed
+    }
+
+    public async handleClick(intersects: THREE.Intersection[]): Promise<void> {
+        if (!intersects.length || this.isClosing) return;
+
+        const clickedObject = intersects[0].object;
+        if (clickedObject.name === "ResumeButton") {
+            this.isClosing = true;
+            await this.sceneManager.popScene();
+        } else if (clickedObject.name === "MainMenuButton") {
+            this.isClosing = true;
+            // changeScene replaces the paused scene as well, closing this overlay on the way
+            await this.sceneManager.changeScene('start_menu', 'fade');
+        }
+    }
+
+    public handleMouseMove(intersects: THREE.Intersection[]): void {
+        for (const button of this.buttons) {
+            const material = button.material as THREE.SpriteMaterial;
+            const isHovering = intersects.some(i => i.object === button);
+            material.color.set(isHovering ? 0xffffff : 0xbbbbbb);
+        }
+    }
+}
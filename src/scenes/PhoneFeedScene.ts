@@ -0,0 +1,328 @@
+// src/scenes/PhoneFeedScene.ts
+import * as THREE from 'three';
+import { Scene } from '../core/Scene';
+import { AssetLoader } from '../utils/AssetLoader';
+import { AssetBundle } from '../utils/AssetBundle';
+import { SceneManager } from '../core/SceneManager';
+import { Easing } from '../utils/Easing';
+import { GameEngine } from '../core/GameEngine';
+import { StoryKeys } from '../core/StoryVariables';
+import { PayloadFor, ScenePayload } from '../core/ScenePayloads';
+import { ResourceDisposer } from '../utils/ResourceDisposer';
+
+const PHONE_SCALE_X = 6.5;
+const PHONE_SCALE_Y = 9;
+const POST_WIDTH_FACTOR = 0.5; // Post width occupies 50% of the phone's inner space width
+const POST_SPACING = 1.0; // Vertical space between posts
+
+const MESSAGES = [
+    "Olá, tudo bem?",
+    "Como você está?",
+    "Espero que esteja tendo um bom dia!",
+    "Alguma novidade?",
+    "O que você está fazendo agora?",
+];
+
+// Overlay with the phone taken out in the street: rises from the bottom, scrolls to a new post on
+// each click, and goes back down when the player clicks beside it (or after `closeAfterScrolls`).
+// Pops with the number of new posts seen as `postsScrolled`.
+export class PhoneFeedScene extends Scene {
+    public static readonly isOverlay = true;
+    public static readonly bundles = ['cena2'] as const;
+    // Holds the street's textures; let SceneManager free it whenever it is off the stack
+    public readonly reentryPolicy = 'reset';
+    private assetLoader: AssetLoader;
+    private sceneManager: SceneManager;
+    private assets: AssetBundle<'cena2'> | null = null;
+    private phoneTexture: THREE.Texture | null = null;
+    private postTextures: THREE.Texture[] = [];
+    private backdrop: THREE.Mesh | null = null; // Catches the clicks that put the phone away
+
+    private phoneSprite: THREE.Sprite | null = null;
+    private phoneBackgroundPlane: THREE.Mesh | null = null; // Gray screen behind the posts
+    private postClippingPlanes: THREE.Plane[] = []; // Planes for masking posts
+    private postContainer: THREE.Group | null = null;
+    private postSprites: THREE.Mesh[] = [];
+    private animationState: 'phoneMovingUp' | 'phoneIdle' | 'phoneMovingDown' = 'phoneMovingUp';
+    private timeAccumulator = 0;
+    private animationStartTime = 0;
+    private animationDuration = 1; // seconds
+    private isScrollingPosts: boolean = false;
+    private scrollStartY: number = 0;
+    private scrollTargetY: number = 0;
+    private scrollStartTime: number = 0;
+    private scrollDuration: number = 0.5; // seconds
+    private postsScrolled = 0; // During this push
+    private closeAfterScrolls: number | null = null;
+    private performanceData: { [key: string]: number } = {};
+
+    constructor(gameEngine: GameEngine, assetLoader: AssetLoader, sceneManager: SceneManager) {
+        super(gameEngine);
+        this.assetLoader = assetLoader;
+        this.sceneManager = sceneManager;
+        console.log("PhoneFeedScene created");
+    }
+
+    async init(): Promise<void> {
+        console.log("PhoneFeedScene initializing...");
+
+        const assets = await this.assetLoader.loadBundle('cena2');
+        this.assets = assets; // Held until dispose()
+        this.phoneTexture = assets.texture('cena2.celular');
+        this.postTextures = [
+            assets.texture('cena2.post_1'),
+            assets.texture('cena2.post_2'),
+            assets.texture('cena2.post_3')
+        ];
+
+        // Fully transparent, but in front of the street so clicks beside the phone land on it
+        const camera = this.gameEngine.camera;
+        const backdropGeometry = new THREE.PlaneGeometry(camera.right - camera.left, camera.top - camera.bottom);
+        const backdropMaterial = new THREE.MeshBasicMaterial({
+            transparent: true,
+            opacity: 0,
+            depthWrite: false
+        });
+        this.backdrop = new THREE.Mesh(backdropGeometry, backdropMaterial);
+        this.backdrop.position.set(0, 0, 0.05);
+        this.backdrop.name = "PhoneFeedBackdrop";
+        this.threeScene.add(this.backdrop);
+
+        // Custom cursor uses a Phong material, so the overlay needs some light of its own
+        this.threeScene.add(new THREE.AmbientLight(0xffffff, 1));
+
+        console.log("PhoneFeedScene initialized.");
+    }
+
+    // The phone objects are rebuilt by onEnter; only the timing and scroll state carry over between pushes
+    async reset(): Promise<void> {
+        this.animationState = 'phoneMovingUp';
+        this.timeAccumulator = 0;
+        this.animationStartTime = 0;
+        this.isScrollingPosts = false;
+        this.scrollStartY = 0;
+        this.scrollTargetY = 0;
+        this.scrollStartTime = 0;
+        this.postsScrolled = 0;
+        this.closeAfterScrolls = null;
+    }
+
+    dispose(): void {
+        this.assets?.release();
+        this.assets = null;
+    }
+
+    async onEnter(payload?: PayloadFor<'phone_feed'>): Promise<void> {
+        this.postsScrolled = 0;
+        this.closeAfterScrolls = payload?.closeAfterScrolls ?? null;
+        this.isScrollingPosts = false;
+        this.createPhone();
+        this.animationState = 'phoneMovingUp';
+        this.animationStartTime = this.timeAccumulator;
+    }
+
+    // The phone, its screen and the posts are made again on every push; their textures are cached, so only free the rest
+    async onExit(): Promise<ScenePayload> {
+        for (const object of [this.phoneSprite, this.phoneBackgroundPlane, this.postContainer]) {
+            if (object) {
+                ResourceDisposer.disposeObject(object, false);
+            }
+        }
+        this.phoneSprite = null;
+        this.phoneBackgroundPlane = null;
+        this.postContainer = null;
+        this.postSprites = [];
+        this.postClippingPlanes = [];
+        return { postsScrolled: this.postsScrolled };
+    }
+
+    private createPhone(): void {
+        if (!this.phoneTexture) return;
+
+        const phoneMaterial = new THREE.SpriteMaterial({
+            map: this.phoneTexture,
+            transparent: true
+        });
+        this.phoneSprite = new THREE.Sprite(phoneMaterial);
+        this.phoneSprite.scale.set(PHONE_SCALE_X, PHONE_SCALE_Y, 1);
+        this.phoneSprite.position.set(0, -5, 0.2);
+        this.phoneSprite.name = "Phone";
+        this.threeScene.add(this.phoneSprite);
+
+        // Background plane for the phone screen area, sized from the post scaling
+        const screenWidth = PHONE_SCALE_X * 0.53;
+        const screenHeight = PHONE_SCALE_Y * 0.56;
+        const phoneBgGeometry = new THREE.PlaneGeometry(screenWidth, screenHeight);
+        const phoneBgMaterial = new THREE.MeshBasicMaterial({ color: 0xcccfd9 });
+        this.phoneBackgroundPlane = new THREE.Mesh(phoneBgGeometry, phoneBgMaterial);
+        this.phoneBackgroundPlane.position.set(this.phoneSprite.position.x, this.phoneSprite.position.y, 0.18);
+        this.threeScene.add(this.phoneBackgroundPlane);
+
+        // Clipping planes around the screen, starting at the phone's initial Y
+        const halfWidth = screenWidth / 2;
+        const halfHeight = screenHeight / 2;
+        const initialY = this.phoneSprite.position.y;
+        this.postClippingPlanes = [
+            new THREE.Plane(new THREE.Vector3(0, -1, 0), initialY + halfHeight), // Top edge
+            new THREE.Plane(new THREE.Vector3(0, 1, 0), -initialY + halfHeight), // Bottom edge
+            new THREE.Plane(new THREE.Vector3(-1, 0, 0), halfWidth), // Right edge
+            new THREE.Plane(new THREE.Vector3(1, 0, 0), halfWidth) // Left edge
+        ];
+
+        // Posts are stacked downwards in a container that moves with the phone
+        this.postContainer = new THREE.Group();
+        this.postContainer.position.set(this.phoneSprite.position.x, this.phoneSprite.position.y, 0.19);
+        this.threeScene.add(this.postContainer);
+        this.postSprites = [];
+        this.addPost(0);
+    }
+
+    private addPost(textureIndex: number): THREE.Mesh | null {
+        if (!this.postContainer) return null;
+
+        const texture = this.postTextures[textureIndex];
+        const postScaleX = PHONE_SCALE_X * POST_WIDTH_FACTOR;
+        const aspectRatio = texture.image ? (texture.image.naturalHeight / texture.image.naturalWidth) : 1;
+        const postScaleY = postScaleX * aspectRatio;
+
+        const postGeometry = new THREE.PlaneGeometry(postScaleX, postScaleY);
+        const postMaterial = new THREE.MeshBasicMaterial({
+            map: texture,
+            depthTest: true,
+            depthWrite: false, // Prevent writing to depth buffer
+            clippingPlanes: this.postClippingPlanes,
+            clipIntersection: true, // Render pixels *inside* the intersection of ALL planes
+            side: THREE.DoubleSide
+        });
+
+        const post = new THREE.Mesh(postGeometry, postMaterial);
+        post.position.set(0, -(this.postSprites.length * (postScaleY + POST_SPACING)), 0);
+        post.name = `Post${this.postSprites.length + 1}`;
+        this.postContainer.add(post);
+        this.postSprites.push(post);
+        return post;
+    }
+
+    // Moves the phone, its screen, the posts and the clipping planes to `y`
+    private setPhoneY(y: number): void {
+        if (this.phoneSprite) {
+            this.phoneSprite.position.y = y;
+        }
+        if (this.phoneBackgroundPlane) {
+            this.phoneBackgroundPlane.position.y = y;
+            const halfHeight = (this.phoneBackgroundPlane.geometry as THREE.PlaneGeometry).parameters.height / 2;
+            if (this.postClippingPlanes.length === 4) {
+                this.postClippingPlanes[0].constant = y + halfHeight; // Top edge
+                this.postClippingPlanes[1].constant = -y + halfHeight; // Bottom edge
+            }
+        }
+    }
+
+    private putAway(): void {
+        if (this.animationState !== 'phoneIdle') return;
+        this.animationState = 'phoneMovingDown';
+        this.animationStartTime = this.timeAccumulator;
+        this.scrollStartY = this.postContainer?.position.y ?? 0;
+    }
+
+    update(deltaTime: number): void {
+        this.performanceData = {}; // Clear previous frame's data
+        this.timeAccumulator += deltaTime;
+
+        const phoneAnimStartTime = performance.now();
+        if (this.animationState === 'phoneMovingUp') {
+            const elapsed = this.timeAccumulator - this.animationStartTime;
+            const progress = Math.min(elapsed / this.animationDuration, 1);
+            const currentY = -5 + Easing.easeOutQuad(progress) * 5;
+            this.setPhoneY(currentY);
+            if (this.postContainer) {
+                this.postContainer.position.y = currentY;
+            }
+
+            if (progress >= 1) {
+                this.setPhoneY(0);
+                this.animationState = 'phoneIdle';
+                // Center the first post on the screen
+                if (this.postContainer && this.postSprites.length > 0) {
+                    this.postContainer.position.y = -this.postSprites[0].position.y;
+                }
+            }
+        } else if (this.animationState === 'phoneMovingDown') {
+            const elapsed = this.timeAccumulator - this.animationStartTime;
+            const progress = Math.min(elapsed / this.animationDuration, 1);
+            const offset = Easing.easeInQuad(progress) * -9;
+            this.setPhoneY(offset);
+            if (this.postContainer) {
+                this.postContainer.position.y = this.scrollStartY + offset;
+            }
+
+            if (progress >= 1) {
+                this.animationState = 'phoneIdle'; // Until the next push; popScene runs onExit
+                this.sceneManager.popScene();
+            }
+        }
+        this.performanceData['Phone Animation'] = performance.now() - phoneAnimStartTime;
+
+        const postScrollStartTime = performance.now();
+        if (this.isScrollingPosts && this.postContainer) {
+            const elapsed = this.timeAccumulator - this.scrollStartTime;
+            const progress = Math.min(elapsed / this.scrollDuration, 1);
+            this.postContainer.position.y = this.scrollStartY + (this.scrollTargetY - this.scrollStartY) * Easing.easeInOutQuad(progress);
+
+            if (progress >= 1) {
+                this.postContainer.position.y = this.scrollTargetY;
+                this.isScrollingPosts = false;
+                console.log(`Scrolled to post ${this.postSprites.length}`);
+                if (this.closeAfterScrolls !== null && this.postsScrolled >= this.closeAfterScrolls) {
+                    this.putAway();
+                }
+            }
+        }
+        this.performanceData['Post Scrolling Animation'] = performance.now() - postScrollStartTime;
+    }
+
+    render(): void {
+        // Custom rendering if needed
+    }
+
+    public async handleClick(intersects: THREE.Intersection[]): Promise<void> {
+        if (!intersects.length || this.animationState !== 'phoneIdle' || this.isScrollingPosts) return;
+
+        const clickedObject = intersects[0].object;
+        if (clickedObject === this.backdrop) {
+            this.putAway();
+        } else if (clickedObject === this.phoneSprite || clickedObject.name.startsWith("Post")) {
+            await this.scrollToNewPost();
+        }
+    }
+
+    private async scrollToNewPost(): Promise<void> {
+        if (!this.postContainer) return;
+        console.log("Phone or Post clicked - starting scroll");
+
+        const randomMessage = MESSAGES[Math.floor(Math.random() * MESSAGES.length)];
+        const randomMessagePosition = new THREE.Vector3(Math.random() * 16 - 8, Math.random() * 4 - 2, 3);
+        const messageSprite = await this.gameEngine.uiManager.showMessage(randomMessage, 1000, randomMessagePosition);
+        if (messageSprite) {
+            this.threeScene.add(messageSprite);
+        }
+
+        // Add a random post at the bottom and scroll to it
+        const newPostIndex = Math.floor(Math.random() * this.postTextures.length);
+        const newPost = this.addPost(newPostIndex);
+        if (!newPost) return;
+        this.postsScrolled++;
+        this.gameEngine.gameState.variables.increment(StoryKeys.postsScrolled);
+        this.gameEngine.characterManager.markFeedSeen(`post_${newPostIndex + 1}`);
+
+        console.log(`Added new post at index ${this.postSprites.length - 1}, total posts: ${this.postSprites.length}`);
+        this.isScrollingPosts = true;
+        this.scrollStartY = this.postContainer.position.y;
+        this.scrollTargetY = -newPost.position.y;
+        this.scrollStartTime = this.timeAccumulator;
+    }
+
+    getPerformanceData(): { [key: string]: number } {
+        return this.performanceData;
+    }
+}
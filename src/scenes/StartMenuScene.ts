@@ -2,14 +2,19 @@
 import * as THREE from 'three';
 import { Scene } from '../core/Scene';
 import { AssetLoader } from '../utils/AssetLoader';
+import { AssetBundle } from '../utils/AssetBundle';
 import { SceneManager } from '../core/SceneManager';
 import { GameEngine } from '../core/GameEngine';
 
 export class StartMenuScene extends Scene {
+    public static readonly exits = ['cena1_trabalho']; // Continue goes wherever the latest checkpoint is
+    public static readonly bundles = ['start_menu'] as const;
     private assetLoader: AssetLoader;
     private sceneManager: SceneManager;
+    private assets: AssetBundle<'start_menu'> | null = null;
     private backgroundSprite: THREE.Sprite | null = null;
     private startButton: THREE.Sprite | null = null;
+    private continueButton: THREE.Sprite | null = null;
     private buttonScale = 1;
     private pulseDirection = 1;
     private buttonNormalTexture: THREE.Texture | null = null;
@@ -34,8 +39,11 @@ export class StartMenuScene extends Scene {
         try {
             console.log("StartMenuScene initializing...");
 
+            const assets = await this.assetLoader.loadBundle('start_menu');
+            this.assets = assets; // Held until dispose()
+
             // Create simple background
-            const backgroundTexture = await this.assetLoader.loadTexture('assets/start_menu/background.png');
+            const backgroundTexture = assets.texture('start_menu.background');
 
             // Create text texture
             const canvas = document.createElement('canvas');
@@ -75,8 +83,8 @@ export class StartMenuScene extends Scene {
             }
 
             // Load button textures
-            this.buttonNormalTexture = await this.assetLoader.loadTexture('assets/start_menu/button_normal.png');
-            this.buttonHoverTexture = await this.assetLoader.loadTexture('assets/start_menu/button_hover.png');
+            this.buttonNormalTexture = assets.texture('start_menu.button_normal');
+            this.buttonHoverTexture = assets.texture('start_menu.button_hover');
 
             // Generate particle textures
             const sparkTexture = this.createSparkTexture();
@@ -142,6 +150,20 @@ export class StartMenuScene extends Scene {
             this.startButton.userData.isButton = true;
             this.threeScene.add(this.startButton);
 
+            // Create continue button below the start button (only shown when a checkpoint exists)
+            const continueMaterial = new THREE.SpriteMaterial({
+                map: this.createContinueTexture(),
+                transparent: true,
+                color: 0xbbbbbb // Brightens on hover
+            });
+            this.continueButton = new THREE.Sprite(continueMaterial);
+            this.continueButton.scale.set(4, 1, 1);
+            this.continueButton.position.set(0, -2.6, 0.25);
+            this.continueButton.name = "ContinueButton";
+            this.continueButton.userData.isButton = true;
+            this.continueButton.visible = false;
+            this.threeScene.add(this.continueButton);
+
             // Setup spark particles
             this.setupSparks(); // Ensure materials are ready before setup
             console.log("StartMenuScene initialized.");
@@ -199,8 +221,16 @@ export class StartMenuScene extends Scene {
         }
     }
 
+    dispose(): void {
+        this.assets?.release();
+        this.assets = null;
+    }
+
     async onEnter(): Promise<void> {
-        // No special setup needed
+        // Offer to resume only when there is an autosave checkpoint to resume from
+        if (this.continueButton) {
+            this.continueButton.visible = this.gameEngine.saveManager.hasCheckpoint();
+        }
     }
 
     async onExit(): Promise<void> {
@@ -261,6 +291,15 @@ export class StartMenuScene extends Scene {
         if (intersects.length > 0) {
             const clickedObject = intersects[0].object;
 
+            // Continue from the latest autosave checkpoint
+            if (clickedObject.name === "ContinueButton") {
+                if (this.continueButton) {
+                    this.createSparkBurst(this.continueButton.position);
+                }
+                await this.gameEngine.saveManager.continueFromLatestCheckpoint('fade');
+                return;
+            }
+
             // Check if start button was clicked
             if (clickedObject.userData.isButton) {
                 // Change button texture to show pressed state
@@ -275,15 +314,25 @@ export class StartMenuScene extends Scene {
                     this.createSparkBurst(this.startButton.position);
                 }
 
+                // Starting over, so drop flags and choices from any previous playthrough
+                this.gameEngine.gameState.resetStory();
+                this.gameEngine.gameState.setCharacter('Joao'); // Every playthrough opens on João
+
                 // Transition to scene 1 with fade effect after short delay
                 if (this.sceneManager) {
-                    await this.sceneManager.changeScene('cena1_trabalho', 'fade', 1000);
+                    await this.sceneManager.changeScene('cena1_trabalho', 'fade', 1000, { payload: { reason: 'new_game' } });
                 }
             }
         }
     }
 
     public handleMouseMove(intersects: THREE.Intersection[]): void {
+        if (this.continueButton) {
+            const material = this.continueButton.material as THREE.SpriteMaterial;
+            const isHovering = intersects.some(i => i.object === this.continueButton);
+            material.color.set(isHovering ? 0xffffff : 0xbbbbbb);
+        }
+
         if (this.startButton) {
             const material = this.startButton.material as THREE.SpriteMaterial;
             const isHovering = intersects.some(i => i.object === this.startButton);
@@ -299,6 +348,25 @@ export class StartMenuScene extends Scene {
         }
     }
 
+    private createContinueTexture(): THREE.CanvasTexture {
+        const canvas = document.createElement('canvas');
+        canvas.width = 1024;
+        canvas.height = 256;
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error("Could not get 2D context for continue button texture");
+
+        // Same font as the title, which init() has already loaded
+        context.fillStyle = '#ffcc00';
+        context.font = '160px Thata-Regular';
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        context.fillText('CONTINUE', canvas.width / 2, canvas.height / 2);
+
+        const texture = new THREE.CanvasTexture(canvas);
+        texture.needsUpdate = true;
+        return texture;
+    }
+
     // --- Particle Texture Generation ---
 
     private createSparkTexture(): THREE.CanvasTexture {
@@ -0,0 +1,148 @@
+// src/service-worker.js
+// Template of the service worker: scripts/service-worker-plugin.js prepends CACHE_VERSION, SHELL_FILES,
+// ASSET_REVISIONS (asset path -> content hash, in the order the game needs them) and OPTIONAL_ASSETS to it on every build.
+//  - App shell (index.html, bundle.js): network first, so a new build shows up on the next reload; cached copy offline
+//  - Assets: cache first. Stored under path?rev=<hash>, so a new build copies the files that didn't change over
+//    from the previous cache instead of downloading them again
+//  - Once active, and whenever the page asks (CACHE_ALL), the assets not cached yet are downloaded for offline play.
+//    Optional ones (audio variants) are only cached when the game loads them; offline, a missing variant falls
+//    back to the sound's MP3 in AssetLoader
+/* global CACHE_VERSION, SHELL_FILES, ASSET_REVISIONS, OPTIONAL_ASSETS */
+
+const CACHE_PREFIX = 'aion-';
+const SHELL_CACHE = `${CACHE_PREFIX}shell-${CACHE_VERSION}`;
+const ASSET_CACHE = `${CACHE_PREFIX}assets-${CACHE_VERSION}`;
+const ASSET_PATHS = Object.keys(ASSET_REVISIONS);
+const REQUIRED_PATHS = ASSET_PATHS.filter(path => !OPTIONAL_ASSETS.includes(path));
+
+let warming = null; // The running warmAssetCache(), if any
+
+function toScopeUrl(path) {
+  return new URL(path, self.registration.scope).href;
+}
+
+function assetKey(path) {
+  return toScopeUrl(`${path}?rev=${ASSET_REVISIONS[path]}`);
+}
+
+// Path relative to the scope, or null for URLs outside it
+function toScopePath(url) {
+  const scope = self.registration.scope;
+  if (!url.startsWith(scope)) return null;
+  return decodeURIComponent(url.slice(scope.length).split(/[?#]/)[0]);
+}
+
+async function carryOverAssets() {
+  const cache = await caches.open(ASSET_CACHE);
+  for (const path of ASSET_PATHS) {
+    // Searches every cache, so this finds the file in the previous build's cache if its hash didn't change
+    const previous = await caches.match(assetKey(path));
+    if (previous) await cache.put(assetKey(path), previous);
+  }
+}
+
+// Downloads the assets that aren't cached yet, one at a time so the game's own requests aren't held up
+function warmAssetCache() {
+  if (!warming) {
+    warming = (async () => {
+      const cache = await caches.open(ASSET_CACHE);
+      const cached = new Set((await cache.keys()).map(request => request.url));
+      for (const path of REQUIRED_PATHS) {
+        if (cached.has(assetKey(path))) continue;
+        try {
+          const response = await fetch(toScopeUrl(path));
+          if (response.ok) await cache.put(assetKey(path), response);
+        } catch (error) {
+          console.warn(`[ServiceWorker] Could not cache ${path}:`, error);
+        }
+      }
+    })().finally(() => {
+      warming = null;
+    });
+  }
+  return warming;
+}
+
+async function getCacheStatus() {
+  const cache = await caches.open(ASSET_CACHE);
+  const cached = new Set((await cache.keys()).map(request => request.url));
+  return {
+    version: CACHE_VERSION,
+    cachedAssets: REQUIRED_PATHS.filter(path => cached.has(assetKey(path))).length,
+    totalAssets: REQUIRED_PATHS.length,
+    downloading: warming !== null,
+  };
+}
+
+async function fromAssetCache(path, request) {
+  const cache = await caches.open(ASSET_CACHE);
+  const cached = await cache.match(assetKey(path));
+  if (cached) return cached;
+
+  const response = await fetch(request);
+  if (response.status === 200) {
+    cache.put(assetKey(path), response.clone()).catch(error => console.warn(`[ServiceWorker] Could not cache ${path}:`, error));
+  }
+  return response;
+}
+
+async function networkFirst(request, cachePath) {
+  try {
+    const response = await fetch(request);
+    if (response.ok) {
+      const cache = await caches.open(SHELL_CACHE);
+      cache.put(toScopeUrl(cachePath), response.clone());
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(toScopeUrl(cachePath));
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil((async () => {
+    const shell = await caches.open(SHELL_CACHE);
+    await shell.addAll(SHELL_FILES.map(toScopeUrl));
+    await carryOverAssets();
+    await self.skipWaiting();
+  })());
+});
+
+self.addEventListener('activate', event => {
+  event.waitUntil((async () => {
+    const names = await caches.keys();
+    await Promise.all(names
+      .filter(name => name.startsWith(CACHE_PREFIX) && name !== SHELL_CACHE && name !== ASSET_CACHE)
+      .map(name => caches.delete(name)));
+    await self.clients.claim();
+    warmAssetCache();
+  })());
+});
+
+self.addEventListener('fetch', event => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+  const path = toScopePath(request.url);
+  if (path === null) return;
+
+  if (Object.prototype.hasOwnProperty.call(ASSET_REVISIONS, path)) {
+    event.respondWith(fromAssetCache(path, request));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(networkFirst(request, 'index.html'));
+  } else if (SHELL_FILES.includes(path)) {
+    event.respondWith(networkFirst(request, path));
+  }
+});
+
+// Requests from AssetLoader; the answer goes back through the MessageChannel port sent along
+self.addEventListener('message', event => {
+  const port = event.ports[0];
+  if (!port) return;
+  if (event.data?.type === 'GET_CACHE_STATUS') {
+    event.waitUntil(getCacheStatus().then(status => port.postMessage(status)));
+  } else if (event.data?.type === 'CACHE_ALL') {
+    event.waitUntil(warmAssetCache().then(getCacheStatus).then(status => port.postMessage(status)));
+  }
+});
@@ -0,0 +1,67 @@
+// src/transitions/CharacterSwapTransition.ts
+import * as THREE from 'three';
+import { Transition, FULLSCREEN_VERTEX_SHADER } from './Transition';
+import { GLITCH_SOUNDS } from './GlitchTransition';
+
+// Played when control passes between João and Nyx: a ripple from the centre that washes into violet
+export class CharacterSwapTransition extends Transition {
+    public readonly name: string = 'character-swap';
+    protected readonly capturesView: boolean = true;
+
+    constructor() {
+        super();
+        this.duration = 1100;
+        this.soundCues = GLITCH_SOUNDS;
+        this.soundVolume = 0.3;
+    }
+
+    protected createMaterial(): THREE.Material {
+        return new THREE.ShaderMaterial({
+            uniforms: {
+                time: { value: 0.0 },
+                progress: { value: 0.0 },
+                tDiffuse: { value: null },
+                swapColor: { value: new THREE.Color(0x2a1440) }
+            },
+            vertexShader: FULLSCREEN_VERTEX_SHADER,
+            fragmentShader: `
+              uniform float time;
+              uniform float progress;
+              uniform sampler2D tDiffuse;
+              uniform vec3 swapColor;
+              varying vec2 vUv;
+
+              void main() {
+                vec2 toCenter = vUv - 0.5;
+                float dist = length(toCenter);
+                vec2 dir = dist > 0.0 ? toCenter / dist : vec2(0.0);
+
+                // Rings travelling outwards, stronger as the swap progresses
+                float ripple = sin(dist * 45.0 - time * 12.0) * 0.025 * progress;
+                vec2 uv = vUv + dir * ripple;
+
+                // Channels pulled apart along the ripple
+                float split = 0.012 * progress;
+                vec3 color;
+                color.r = texture2D(tDiffuse, uv + dir * split).r;
+                color.g = texture2D(tDiffuse, uv).g;
+                color.b = texture2D(tDiffuse, uv - dir * split).b;
+
+                // The wash spreads from the centre out to the corners
+                float wash = smoothstep(dist - 0.3, dist + 0.1, progress * 1.1 - 0.2);
+                color = mix(color, swapColor, wash);
+
+                gl_FragColor = vec4(color, smoothstep(0.0, 0.1, progress));
+              }
+            `,
+            transparent: true,
+            depthTest: false
+        });
+    }
+
+    protected applyProgress(material: THREE.Material, progress: number, time: number): void {
+        const uniforms = (material as THREE.ShaderMaterial).uniforms;
+        uniforms.time.value = time;
+        uniforms.progress.value = progress;
+    }
+}
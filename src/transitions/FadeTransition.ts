@@ -0,0 +1,28 @@
+// src/transitions/FadeTransition.ts
+import * as THREE from 'three';
+import { Transition } from './Transition';
+
+// Plain fade through a solid colour (black by default)
+export class FadeTransition extends Transition {
+    public readonly name: string;
+    private color: THREE.ColorRepresentation;
+
+    constructor(name: string = 'fade', color: THREE.ColorRepresentation = 0x000000) {
+        super();
+        this.name = name;
+        this.color = color;
+    }
+
+    protected createMaterial(): THREE.Material {
+        return new THREE.MeshBasicMaterial({
+            color: this.color,
+            transparent: true,
+            opacity: 0,
+            depthTest: false
+        });
+    }
+
+    protected applyProgress(material: THREE.Material, progress: number): void {
+        material.opacity = progress;
+    }
+}
@@ -0,0 +1,73 @@
+// src/transitions/GlitchTransition.ts
+import * as THREE from 'three';
+import { Transition, TransitionSound, FULLSCREEN_VERTEX_SHADER } from './Transition';
+import { AudioId } from '../utils/AssetManifest';
+
+// Shared by every transition that wants the glitch noise as its cue
+export const GLITCH_SOUNDS: TransitionSound[] = Array.from({ length: 10 }, (_, index) => ({
+    name: `glitch_${index}`,
+    audio: `ui.glitch_${index + 1}` as AudioId
+}));
+
+// Displaces and colour-splits the captured scene, fading it in over the old one
+export class GlitchTransition extends Transition {
+    public readonly name: string = 'glitch';
+    protected readonly capturesView: boolean = true;
+
+    constructor() {
+        super();
+        this.soundCues = GLITCH_SOUNDS;
+    }
+
+    protected createMaterial(): THREE.Material {
+        return new THREE.ShaderMaterial({
+            uniforms: {
+                time: { value: 0.0 },
+                intensity: { value: 0.0 },
+                tDiffuse: { value: null } // Set every frame from the captured view
+            },
+            vertexShader: FULLSCREEN_VERTEX_SHADER,
+            fragmentShader: `
+              uniform float time;
+              uniform float intensity;
+              uniform sampler2D tDiffuse;
+              varying vec2 vUv;
+
+              float rand(vec2 co){
+                return fract(sin(dot(co.xy ,vec2(12.9898,78.233))) * 43758.5453);
+              }
+
+              void main() {
+                vec2 uv = vUv;
+                float glitchTime = mod(time * 0.5 + intensity * 5.0, 2.0);
+                float displacement = intensity * (rand(vec2(glitchTime)) - 0.5) * 0.1;
+                float colorShift = intensity * (rand(vec2(glitchTime + 0.1)) - 0.5) * 0.05;
+
+                if (rand(vec2(floor(glitchTime * 10.0))) > 0.85) {
+                    uv.x += displacement;
+                }
+
+                vec4 color = texture2D(tDiffuse, uv);
+
+                if (rand(vec2(floor(glitchTime * 15.0))) > 0.9) {
+                    color.r = texture2D(tDiffuse, uv + vec2(colorShift, 0.0)).r;
+                    color.g = texture2D(tDiffuse, uv - vec2(colorShift, 0.0)).g;
+                }
+
+                float noise = rand(uv + mod(time, 1.0)) * 0.2 * intensity;
+                color.rgb -= noise;
+
+                gl_FragColor = mix(vec4(0.0, 0.0, 0.0, 0.0), vec4(color.rgb, 1.0), intensity);
+              }
+            `,
+            transparent: true,
+            depthTest: false
+        });
+    }
+
+    protected applyProgress(material: THREE.Material, progress: number, time: number): void {
+        const uniforms = (material as THREE.ShaderMaterial).uniforms;
+        uniforms.time.value = time;
+        uniforms.intensity.value = progress;
+    }
+}
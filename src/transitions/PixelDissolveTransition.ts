@@ -0,0 +1,56 @@
+// src/transitions/PixelDissolveTransition.ts
+import * as THREE from 'three';
+import { Transition, FULLSCREEN_VERTEX_SHADER } from './Transition';
+
+// Pixelates the captured scene into ever larger blocks that drop out to black at random
+export class PixelDissolveTransition extends Transition {
+    public readonly name: string = 'pixel-dissolve';
+    protected readonly capturesView: boolean = true;
+
+    constructor() {
+        super();
+        this.duration = 900;
+        this.soundCues = [{ name: 'transition_dissolve', audio: 'ui.dissolve' }];
+        this.soundVolume = 0.3; // Square-wave blips cut through more than noise
+    }
+
+    protected createMaterial(): THREE.Material {
+        return new THREE.ShaderMaterial({
+            uniforms: {
+                progress: { value: 0.0 },
+                maxBlocks: { value: 160.0 }, // Blocks across the screen when the dissolve starts
+                tDiffuse: { value: null }
+            },
+            vertexShader: FULLSCREEN_VERTEX_SHADER,
+            fragmentShader: `
+              uniform float progress;
+              uniform float maxBlocks;
+              uniform sampler2D tDiffuse;
+              varying vec2 vUv;
+
+              float rand(vec2 co){
+                return fract(sin(dot(co.xy ,vec2(12.9898,78.233))) * 43758.5453);
+              }
+
+              void main() {
+                float blocks = mix(maxBlocks, 12.0, progress);
+                vec2 cell = floor(vUv * blocks);
+                vec2 uv = (cell + 0.5) / blocks;
+                vec3 color = texture2D(tDiffuse, uv).rgb;
+
+                // Each block vanishes once progress passes its own random threshold
+                float gone = step(rand(cell), progress * 1.1 - 0.05);
+                color *= 1.0 - gone;
+
+                gl_FragColor = vec4(color, smoothstep(0.0, 0.1, progress));
+              }
+            `,
+            transparent: true,
+            depthTest: false
+        });
+    }
+
+    protected applyProgress(material: THREE.Material, progress: number): void {
+        (material as THREE.ShaderMaterial).uniforms.progress.value = progress;
+    }
+}
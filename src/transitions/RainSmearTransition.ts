@@ -0,0 +1,68 @@
+// src/transitions/RainSmearTransition.ts
+import * as THREE from 'three';
+import { Transition, FULLSCREEN_VERTEX_SHADER } from './Transition';
+
+// Drags the captured scene down in uneven streaks, like rain on glass, sinking into a dark blue
+export class RainSmearTransition extends Transition {
+    public readonly name: string = 'rain-smear';
+    protected readonly capturesView: boolean = true;
+
+    constructor() {
+        super();
+        this.duration = 1200;
+        this.soundCues = [{ name: 'transition_rain_smear', audio: 'ui.rain_smear' }];
+        this.soundVolume = 0.6; // Soft rain; quieter than the other cues at the same volume
+    }
+
+    protected createMaterial(): THREE.Material {
+        return new THREE.ShaderMaterial({
+            uniforms: {
+                time: { value: 0.0 },
+                progress: { value: 0.0 },
+                tDiffuse: { value: null },
+                tint: { value: new THREE.Color(0x020814) }
+            },
+            vertexShader: FULLSCREEN_VERTEX_SHADER,
+            fragmentShader: `
+              uniform float time;
+              uniform float progress;
+              uniform sampler2D tDiffuse;
+              uniform vec3 tint;
+              varying vec2 vUv;
+
+              float rand(vec2 co){
+                return fract(sin(dot(co.xy ,vec2(12.9898,78.233))) * 43758.5453);
+              }
+
+              void main() {
+                // Each thin column gets its own streak length and speed
+                float column = floor(vUv.x * 220.0);
+                float speed = 0.5 + rand(vec2(column, 1.0));
+                float streak = progress * speed * 0.35;
+
+                vec3 color = vec3(0.0);
+                for (int i = 0; i < 6; i++) {
+                  float offset = streak * float(i) / 5.0;
+                  color += texture2D(tDiffuse, vec2(vUv.x, min(vUv.y + offset, 1.0))).rgb;
+                }
+                color /= 6.0;
+
+                // Bright drops running down the streaks
+                float drop = step(0.985, rand(vec2(column, floor(vUv.y * 40.0 + time * speed * 6.0))));
+                color += vec3(0.6, 0.8, 1.0) * drop * progress * 0.5;
+
+                color = mix(color, tint, smoothstep(0.4, 1.0, progress));
+                gl_FragColor = vec4(color, smoothstep(0.0, 0.1, progress));
+              }
+            `,
+            transparent: true,
+            depthTest: false
+        });
+    }
+
+    protected applyProgress(material: THREE.Material, progress: number, time: number): void {
+        const uniforms = (material as THREE.ShaderMaterial).uniforms;
+        uniforms.time.value = time;
+        uniforms.progress.value = progress;
+    }
+}
@@ -0,0 +1,160 @@
+// src/transitions/Transition.ts
+import * as THREE from 'three';
+import { Easing } from '../utils/Easing';
+import { AudioId } from '../utils/AssetManifest';
+
+// What SceneManager hands to a transition while it runs
+export interface TransitionContext {
+    renderer: THREE.WebGLRenderer;
+    // Full-screen plane in front of the camera; the transition puts its material on it
+    overlay: THREE.Mesh;
+    // Scene the overlay must be attached to (changes between the out and in phase)
+    getScene(): THREE.Scene | null;
+    // Renders what is currently on screen, minus the overlay, into the target
+    captureView(target: THREE.WebGLRenderTarget): boolean;
+    playSound(name: string, volume: number): void;
+}
+
+export interface TransitionSound {
+    name: string;
+    audio: AudioId;
+}
+
+export const FULLSCREEN_VERTEX_SHADER = `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`;
+
+/**
+ * A scene transition: covers the screen (out), SceneManager swaps scenes, then uncovers it (in).
+ * Subclasses provide the overlay material and how it looks at a given progress
+ * (0 = scene fully visible, 1 = fully covered).
+ */
+export abstract class Transition {
+    public abstract readonly name: string;
+    public duration: number = 1000; // ms for each of the out and in phases
+    public easeOut: (t: number) => number = Easing.easeInCubic;
+    public easeIn: (t: number) => number = Easing.easeOutCubic;
+
+    // Whether the material samples the current view (bound to its tDiffuse uniform)
+    protected readonly capturesView: boolean = false;
+    // Sounds picked at random when covering and after uncovering
+    protected soundCues: TransitionSound[] = [];
+    protected soundVolume: number = 0.4;
+
+    private material: THREE.Material | null = null;
+    private lastCueIndex: number = -1;
+
+    protected abstract createMaterial(): THREE.Material;
+    protected abstract applyProgress(material: THREE.Material, progress: number, time: number): void;
+
+    public getSounds(): TransitionSound[] {
+        return this.soundCues;
+    }
+
+    public async out(context: TransitionContext): Promise<void> {
+        this.playCue(context);
+        await this.animate(context, 1, this.easeOut);
+    }
+
+    public async in(context: TransitionContext): Promise<void> {
+        await this.animate(context, 0, this.easeIn);
+        this.playCue(context);
+    }
+
+    public dispose(): void {
+        this.material?.dispose();
+        this.material = null;
+    }
+
+    protected getMaterial(): THREE.Material {
+        if (!this.material) {
+            this.material = this.createMaterial();
+        }
+        return this.material;
+    }
+
+    private playCue(context: TransitionContext): void {
+        if (this.soundCues.length === 0) return;
+
+        let index = 0;
+        if (this.soundCues.length > 1) {
+            do {
+                index = Math.floor(Math.random() * this.soundCues.length);
+            } while (index === this.lastCueIndex);
+        }
+        this.lastCueIndex = index;
+        context.playSound(this.soundCues[index].name, this.soundVolume);
+    }
+
+    private animate(context: TransitionContext, targetProgress: number, easingFn: (t: number) => number): Promise<void> {
+        const { overlay, renderer } = context;
+        const material = this.getMaterial();
+        const startProgress = 1 - targetProgress;
+        overlay.material = material;
+
+        let renderTarget: THREE.WebGLRenderTarget | null = null;
+        if (this.capturesView) {
+            const width = renderer.domElement.width;
+            const height = renderer.domElement.height;
+            if (width <= 0 || height <= 0) {
+                console.error(`[${this.name}] Invalid renderer dimensions (${width}x${height}). Skipping transition.`);
+                return Promise.resolve();
+            }
+            renderTarget = new THREE.WebGLRenderTarget(width, height);
+        }
+
+        const startTime = performance.now();
+        return new Promise<void>((resolve) => {
+            const finish = () => {
+                renderTarget?.dispose();
+                // Once uncovered, take the overlay out of the scene again
+                if (targetProgress === 0) {
+                    context.getScene()?.remove(overlay);
+                }
+                resolve();
+            };
+
+            const frame = (currentTime: number) => {
+                try {
+                    // Keep the overlay attached to whichever scene is active right now
+                    const scene = context.getScene();
+                    if (!scene) {
+                        finish();
+                        return;
+                    }
+                    if (!scene.children.includes(overlay)) {
+                        scene.add(overlay);
+                    }
+
+                    if (renderTarget) {
+                        context.captureView(renderTarget);
+                        const uniforms = (material as THREE.ShaderMaterial).uniforms;
+                        if (uniforms?.tDiffuse) {
+                            uniforms.tDiffuse.value = renderTarget.texture;
+                        }
+                    }
+
+                    const linear = Math.min((currentTime - startTime) / this.duration, 1);
+                    const progress = startProgress + (targetProgress - startProgress) * easingFn(linear);
+                    this.applyProgress(material, progress, currentTime * 0.001);
+
+                    if (linear < 1) {
+                        requestAnimationFrame(frame);
+                    } else {
+                        this.applyProgress(material, targetProgress, currentTime * 0.001);
+                        finish();
+                    }
+                } catch (error) {
+                    console.error(`[${this.name}] Error inside animation loop:`, error);
+                    finish(); // Resolve even on error to avoid hanging the scene change
+                }
+            };
+
+            requestAnimationFrame(frame);
+        });
+    }
+}
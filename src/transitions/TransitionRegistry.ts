@@ -0,0 +1,58 @@
+// src/transitions/TransitionRegistry.ts
+import { Transition } from './Transition';
+import { FadeTransition } from './FadeTransition';
+import { GlitchTransition } from './GlitchTransition';
+import { WipeTransition } from './WipeTransition';
+import { PixelDissolveTransition } from './PixelDissolveTransition';
+import { RainSmearTransition } from './RainSmearTransition';
+import { CharacterSwapTransition } from './CharacterSwapTransition';
+
+export class TransitionRegistry {
+    private transitions: Map<string, Transition> = new Map();
+    private registerListeners: Array<(transition: Transition) => void> = [];
+
+    public register(transition: Transition): void {
+        const existing = this.transitions.get(transition.name);
+        if (existing) {
+            console.warn(`[TransitionRegistry] Transition "${transition.name}" already registered. Overwriting.`);
+            existing.dispose();
+        }
+        this.transitions.set(transition.name, transition);
+        for (const listener of this.registerListeners) {
+            listener(transition);
+        }
+    }
+
+    public get(name: string): Transition | undefined {
+        return this.transitions.get(name);
+    }
+
+    public has(name: string): boolean {
+        return this.transitions.has(name);
+    }
+
+    public getNames(): string[] {
+        return Array.from(this.transitions.keys());
+    }
+
+    public getAll(): Transition[] {
+        return Array.from(this.transitions.values());
+    }
+
+    // Called for every transition registered from now on (e.g. to load its sound cues)
+    public onRegister(callback: (transition: Transition) => void): void {
+        this.registerListeners.push(callback);
+    }
+
+    public registerDefaults(): void {
+        this.register(new FadeTransition());
+        this.register(new GlitchTransition());
+        this.register(new WipeTransition('left'));
+        this.register(new WipeTransition('right'));
+        this.register(new WipeTransition('up'));
+        this.register(new WipeTransition('down'));
+        this.register(new PixelDissolveTransition());
+        this.register(new RainSmearTransition());
+        this.register(new CharacterSwapTransition());
+    }
+}
@@ -0,0 +1,63 @@
+// src/transitions/WipeTransition.ts
+import * as THREE from 'three';
+import { Transition, FULLSCREEN_VERTEX_SHADER } from './Transition';
+
+export type WipeDirection = 'left' | 'right' | 'up' | 'down';
+
+const DIRECTION_VECTORS: { [direction in WipeDirection]: THREE.Vector2 } = {
+    left: new THREE.Vector2(-1, 0),
+    right: new THREE.Vector2(1, 0),
+    up: new THREE.Vector2(0, 1),
+    down: new THREE.Vector2(0, -1)
+};
+
+// Black sweeps across the screen in `direction` behind a neon edge, then sweeps back out
+export class WipeTransition extends Transition {
+    public readonly name: string;
+    private direction: WipeDirection;
+
+    constructor(direction: WipeDirection) {
+        super();
+        this.name = `wipe-${direction}`;
+        this.direction = direction;
+        this.duration = 700;
+        this.soundCues = [{ name: 'transition_wipe', audio: 'ui.wipe' }]; // One swish shared by every direction
+    }
+
+    protected createMaterial(): THREE.Material {
+        return new THREE.ShaderMaterial({
+            uniforms: {
+                progress: { value: 0.0 },
+                direction: { value: DIRECTION_VECTORS[this.direction].clone() },
+                softness: { value: 0.05 },
+                edgeColor: { value: new THREE.Color(0x00f0ff) }
+            },
+            vertexShader: FULLSCREEN_VERTEX_SHADER,
+            fragmentShader: `
+              uniform float progress;
+              uniform vec2 direction;
+              uniform float softness;
+              uniform vec3 edgeColor;
+              varying vec2 vUv;
+
+              void main() {
+                // 0 on the side the wipe starts from, 1 on the side it ends at
+                float t = dot(vUv - 0.5, direction) + 0.5;
+                float edge = progress * (1.0 + softness);
+                float cover = 1.0 - smoothstep(edge - softness, edge, t);
+
+                float glow = exp(-abs(t - edge) * 80.0) * step(0.001, progress) * step(progress, 0.999);
+                vec3 color = edgeColor * glow;
+
+                gl_FragColor = vec4(color, max(cover, glow));
+              }
+            `,
+            transparent: true,
+            depthTest: false
+        });
+    }
+
+    protected applyProgress(material: THREE.Material, progress: number): void {
+        (material as THREE.ShaderMaterial).uniforms.progress.value = progress;
+    }
+}
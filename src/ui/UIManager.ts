@@ -1,10 +1,14 @@
 // src/ui/UIManager.ts
 import * as THREE from 'three'; // Import THREE
 import { GameEngine } from '../core/GameEngine';
+import { CharacterId } from '../core/GameState';
+import { AudioId } from '../utils/AssetManifest';
+import { AUDIO_BUSES } from '../core/AudioMixer';
 
 export class UIManager {
     private debugOverlay: HTMLElement | null = null;
     private readonly initialSceneStorageKey = 'debug_initialScene';
+    private readonly debugSaveSlots = ['slot_1', 'slot_2', 'slot_3'];
     private fpsCounter: HTMLElement | null = null;
     private lastFrameTime: number = 0;
     private frameCount: number = 0;
@@ -26,6 +30,13 @@ export class UIManager {
     private messageGlitchMaterial: THREE.ShaderMaterial | null = null;
     private fadeOutDuration: number = 800; // milliseconds - Reduced duration for faster fade
 
+    // Inner-voice message colours per character (João neon blue, Nyx lilac)
+    private readonly characterMessageColors: { [character in CharacterId]: string } = {
+        Joao: '#00f0ff',
+        Nyx: '#c79bff'
+    };
+    private messageColor: string = this.characterMessageColors.Joao;
+
     // Glitch sound properties
     private glitchSounds: string[] = [];
     private glitchSoundLoaded: boolean = false;
@@ -84,23 +95,25 @@ export class UIManager {
             return;
         }
 
-        const soundFiles = [
-            'sounds/glitch_1.mp3',
-            'sounds/glitch_2.mp3',
-            'sounds/glitch_3.mp3',
-            'sounds/glitch_4.mp3',
-            'sounds/glitch_5.mp3',
-            'sounds/glitch_6.mp3',
-            'sounds/glitch_7.mp3',
-            'sounds/glitch_8.mp3',
-            'sounds/glitch_9.mp3',
-            'sounds/glitch_10.mp3'
+        const soundFiles: AudioId[] = [
+            'ui.glitch_1',
+            'ui.glitch_2',
+            'ui.glitch_3',
+            'ui.glitch_4',
+            'ui.glitch_5',
+            'ui.glitch_6',
+            'ui.glitch_7',
+            'ui.glitch_8',
+            'ui.glitch_9',
+            'ui.glitch_10'
         ];
 
         const loadPromises = soundFiles.map((file, index) => {
             return this.gameEngine.soundManager!.loadSound(
                 `ui_glitch_${index}`,
-                file
+                file,
+                false,
+                'ui'
             ).then(() => {
                 this.glitchSounds.push(`ui_glitch_${index}`);
                 return true;
@@ -130,7 +143,7 @@ export class UIManager {
                 randomIndex = 0;
             }
             this.lastGlitchSoundIndex = randomIndex;
-            await this.gameEngine.soundManager.playSound(this.glitchSounds[randomIndex], 0.3);
+            this.gameEngine.soundManager.playSound(this.glitchSounds[randomIndex], 0.3);
         } catch (error) {
             console.error('Failed to play glitch sound:', error);
         }
@@ -169,6 +182,19 @@ export class UIManager {
         initialSceneValue.style.fontWeight = 'bold';
         initialSceneLabel.appendChild(initialSceneValue);
 
+        // Current Character Section
+        const characterLabel = document.createElement('label');
+        characterLabel.textContent = 'Character: ';
+        characterLabel.style.display = 'block';
+        characterLabel.style.marginBottom = '5px';
+        this.debugOverlay.appendChild(characterLabel);
+
+        const characterValue = document.createElement('span');
+        characterValue.id = 'debug-character-value';
+        characterValue.textContent = 'None';
+        characterValue.style.fontWeight = 'bold';
+        characterLabel.appendChild(characterValue);
+
         // Scene Selector Section
         const sceneSelectLabel = document.createElement('label');
         sceneSelectLabel.textContent = 'Go to Scene: ';
@@ -192,6 +218,130 @@ export class UIManager {
         setInitialButton.onclick = () => this.setInitialScene();
         this.debugOverlay.appendChild(setInitialButton);
 
+        // Save Slots Section
+        const saveSlotLabel = document.createElement('label');
+        saveSlotLabel.textContent = 'Save Slot: ';
+        saveSlotLabel.style.display = 'block';
+        saveSlotLabel.style.marginTop = '10px';
+        this.debugOverlay.appendChild(saveSlotLabel);
+
+        const saveSlotSelect = document.createElement('select');
+        saveSlotSelect.id = 'debug-save-slot-selector';
+        saveSlotSelect.style.marginRight = '10px';
+        for (const slot of this.debugSaveSlots) {
+            const option = document.createElement('option');
+            option.value = slot;
+            option.textContent = slot;
+            saveSlotSelect.appendChild(option);
+        }
+        saveSlotSelect.onchange = () => this.updateSaveSlotInfo();
+        this.debugOverlay.appendChild(saveSlotSelect);
+
+        const saveButton = document.createElement('button');
+        saveButton.textContent = 'Save';
+        saveButton.onclick = () => this.saveToSelectedSlot();
+        this.debugOverlay.appendChild(saveButton);
+
+        const loadButton = document.createElement('button');
+        loadButton.textContent = 'Load';
+        loadButton.style.marginLeft = '5px';
+        loadButton.onclick = () => this.loadSelectedSlot();
+        this.debugOverlay.appendChild(loadButton);
+
+        const saveSlotInfo = document.createElement('span');
+        saveSlotInfo.id = 'debug-save-slot-info';
+        saveSlotInfo.style.display = 'block';
+        saveSlotInfo.style.fontSize = '12px';
+        saveSlotInfo.style.marginTop = '5px';
+        this.debugOverlay.appendChild(saveSlotInfo);
+
+        // Scene Graph Section
+        const sceneGraphLabel = document.createElement('label');
+        sceneGraphLabel.textContent = 'Scene Graph: ';
+        sceneGraphLabel.style.display = 'block';
+        sceneGraphLabel.style.marginTop = '10px';
+        this.debugOverlay.appendChild(sceneGraphLabel);
+
+        const sceneGraphInfo = document.createElement('div');
+        sceneGraphInfo.id = 'debug-scene-graph-info';
+        sceneGraphInfo.style.fontSize = '12px';
+        sceneGraphInfo.style.marginTop = '5px';
+        this.debugOverlay.appendChild(sceneGraphInfo);
+
+        // Asset Errors Section
+        const assetErrorsLabel = document.createElement('label');
+        assetErrorsLabel.textContent = 'Asset Errors: ';
+        assetErrorsLabel.style.display = 'block';
+        assetErrorsLabel.style.marginTop = '10px';
+        this.debugOverlay.appendChild(assetErrorsLabel);
+
+        const assetErrorsInfo = document.createElement('div');
+        assetErrorsInfo.id = 'debug-asset-errors-info';
+        assetErrorsInfo.style.fontSize = '12px';
+        assetErrorsInfo.style.marginTop = '5px';
+        this.debugOverlay.appendChild(assetErrorsInfo);
+
+        // Asset Memory Section
+        const assetMemoryLabel = document.createElement('label');
+        assetMemoryLabel.textContent = 'Asset Memory: ';
+        assetMemoryLabel.style.display = 'block';
+        assetMemoryLabel.style.marginTop = '10px';
+        this.debugOverlay.appendChild(assetMemoryLabel);
+
+        const assetMemoryInfo = document.createElement('div');
+        assetMemoryInfo.id = 'debug-asset-memory-info';
+        assetMemoryInfo.style.fontSize = '12px';
+        assetMemoryInfo.style.marginTop = '5px';
+        this.debugOverlay.appendChild(assetMemoryInfo);
+
+        // Offline Cache Section
+        const offlineCacheLabel = document.createElement('label');
+        offlineCacheLabel.textContent = 'Offline Cache: ';
+        offlineCacheLabel.style.display = 'block';
+        offlineCacheLabel.style.marginTop = '10px';
+        this.debugOverlay.appendChild(offlineCacheLabel);
+
+        const offlineCacheInfo = document.createElement('span');
+        offlineCacheInfo.id = 'debug-offline-cache-info';
+        offlineCacheInfo.style.fontSize = '12px';
+        this.debugOverlay.appendChild(offlineCacheInfo);
+
+        const cacheAllButton = document.createElement('button');
+        cacheAllButton.textContent = 'Cache All';
+        cacheAllButton.style.marginLeft = '5px';
+        cacheAllButton.onclick = () => {
+            offlineCacheInfo.textContent = 'Downloading...';
+            this.gameEngine.assetLoader.cacheAllAssets().then(() => this.updateOfflineCacheInfo());
+        };
+        this.debugOverlay.appendChild(cacheAllButton);
+
+        // Audio Quality Section
+        const audioQualityLabel = document.createElement('label');
+        audioQualityLabel.textContent = 'Audio Quality: ';
+        audioQualityLabel.style.display = 'block';
+        audioQualityLabel.style.marginTop = '10px';
+        this.debugOverlay.appendChild(audioQualityLabel);
+
+        const audioQualitySelect = document.createElement('select');
+        audioQualitySelect.id = 'debug-audio-quality-selector';
+        audioQualitySelect.style.marginRight = '10px';
+        for (const quality of ['auto', 'high', 'low'] as const) {
+            const option = document.createElement('option');
+            option.value = quality;
+            option.textContent = quality;
+            audioQualitySelect.appendChild(option);
+        }
+        audioQualitySelect.onchange = () => {
+            this.gameEngine.assetLoader.setAudioQuality(audioQualitySelect.value as 'auto' | 'high' | 'low');
+            this.updateAudioQualityInfo();
+        };
+        this.debugOverlay.appendChild(audioQualitySelect);
+
+        const audioQualityInfo = document.createElement('span');
+        audioQualityInfo.id = 'debug-audio-quality-info';
+        audioQualityInfo.style.fontSize = '12px';
+        this.debugOverlay.appendChild(audioQualityInfo);
+
         // Close button
         const closeButton = document.createElement('button');
         closeButton.textContent = 'Close (P)';
@@ -213,6 +363,36 @@ export class UIManager {
         soundToggle.onchange = () => this.toggleSound();
         soundToggleLabel.appendChild(soundToggle);
 
+        // Volume Section: one slider per mixer bus, saved by the mixer as they move
+        const volumeLabel = document.createElement('label');
+        volumeLabel.textContent = 'Volume: ';
+        volumeLabel.style.display = 'block';
+        volumeLabel.style.marginTop = '10px';
+        this.debugOverlay.appendChild(volumeLabel);
+
+        for (const bus of AUDIO_BUSES) {
+            const busRow = document.createElement('div');
+            busRow.style.fontSize = '12px';
+
+            const busName = document.createElement('span');
+            busName.textContent = bus;
+            busName.style.display = 'inline-block';
+            busName.style.width = '70px';
+            busRow.appendChild(busName);
+
+            const busSlider = document.createElement('input');
+            busSlider.type = 'range';
+            busSlider.id = 'debug-volume-' + bus;
+            busSlider.min = '0';
+            busSlider.max = '1';
+            busSlider.step = '0.05';
+            busSlider.style.verticalAlign = 'middle';
+            busSlider.oninput = () => this.gameEngine.soundManager.mixer.setVolume(bus, Number(busSlider.value));
+            busRow.appendChild(busSlider);
+
+            this.debugOverlay.appendChild(busRow);
+        }
+
         // FPS Counter Section
         const fpsLabel = document.createElement('label');
         fpsLabel.textContent = 'FPS: ';
@@ -414,7 +594,7 @@ void main(){
 
         // Redraw text on the resized canvas
         context.font = "bold " + fontSize + "px Thata-Regular, sans-serif";
-        context.fillStyle = '#00f0ff'; // Neon blue cyberpunk text color
+        context.fillStyle = this.messageColor; // Neon text color of the active character
         context.textAlign = 'center';
         context.textBaseline = 'middle';
         context.fillText(message, canvasWidth / 2, canvasHeight / 2);
@@ -616,6 +796,143 @@ void main(){
         }
     }
 
+    private saveToSelectedSlot(): void {
+        const slot = this.debugOverlay?.querySelector<HTMLSelectElement>('#debug-save-slot-selector')?.value;
+        if (!slot) return;
+
+        if (this.gameEngine.saveManager.save(slot)) {
+            console.log("Debug Overlay: Saved to slot \"" + slot + "\".");
+        }
+        this.updateSaveSlotInfo();
+    }
+
+    private async loadSelectedSlot(): Promise<void> {
+        const slot = this.debugOverlay?.querySelector<HTMLSelectElement>('#debug-save-slot-selector')?.value;
+        if (!slot) return;
+
+        if (await this.gameEngine.saveManager.load(slot)) {
+            this.hideDebugOverlay(); // Hide after loading, same as scene selection
+        } else {
+            console.warn("Debug Overlay: Could not load slot \"" + slot + "\".");
+        }
+    }
+
+    private updateSaveSlotInfo(): void {
+        const slot = this.debugOverlay?.querySelector<HTMLSelectElement>('#debug-save-slot-selector')?.value;
+        const saveSlotInfo = this.debugOverlay?.querySelector<HTMLSpanElement>('#debug-save-slot-info');
+        if (!slot || !saveSlotInfo) return;
+
+        const info = this.gameEngine.saveManager.listSlots().find(s => s.slot === slot);
+        saveSlotInfo.textContent = info
+            ? info.sceneId + " @ " + new Date(info.savedAt).toLocaleString()
+            : 'Empty';
+    }
+
+    private updateSceneGraphInfo(): void {
+        const sceneGraphInfo = this.debugOverlay?.querySelector<HTMLDivElement>('#debug-scene-graph-info');
+        if (!sceneGraphInfo || !this.gameEngine.sceneManager) return;
+
+        const report = this.gameEngine.sceneManager.validateSceneGraph();
+        sceneGraphInfo.innerHTML = '';
+        if (report.isValid) {
+            sceneGraphInfo.textContent = 'OK (entry: ' + report.entrySceneId + ')';
+            sceneGraphInfo.style.color = '#7CFC00';
+            return;
+        }
+
+        sceneGraphInfo.style.color = '#ff6666';
+        for (const edge of report.missingTargets) {
+            const line = document.createElement('div');
+            line.textContent = 'Missing: ' + edge.from + ' -> ' + edge.to;
+            sceneGraphInfo.appendChild(line);
+        }
+        for (const sceneId of report.unreachableScenes) {
+            const line = document.createElement('div');
+            line.textContent = 'Unreachable: ' + sceneId;
+            sceneGraphInfo.appendChild(line);
+        }
+    }
+
+    private updateAssetErrorInfo(): void {
+        const assetErrorsInfo = this.debugOverlay?.querySelector<HTMLDivElement>('#debug-asset-errors-info');
+        if (!assetErrorsInfo || !this.gameEngine.assetLoader) return;
+
+        const failures = this.gameEngine.assetLoader.getErrorReport();
+        assetErrorsInfo.innerHTML = '';
+        if (failures.length === 0) {
+            assetErrorsInfo.textContent = 'OK';
+            assetErrorsInfo.style.color = '#7CFC00';
+            return;
+        }
+
+        assetErrorsInfo.style.color = '#ff6666';
+        for (const failure of failures) {
+            const line = document.createElement('div');
+            line.textContent = failure.resolution + ': ' + failure.path + (failure.id ? ' (' + failure.id + ')' : '') +
+                ' after ' + failure.attempts + ' attempts - ' + failure.error;
+            assetErrorsInfo.appendChild(line);
+        }
+    }
+
+    private updateAssetMemoryInfo(): void {
+        const assetMemoryInfo = this.debugOverlay?.querySelector<HTMLDivElement>('#debug-asset-memory-info');
+        if (!assetMemoryInfo || !this.gameEngine.assetLoader) return;
+
+        const report = this.gameEngine.assetLoader.getMemoryReport();
+        const toMB = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1) + ' MB';
+        const lines = [
+            'Textures: ' + report.textures + ' (' + toMB(report.textureBytes) + ')',
+            'Models: ' + report.models + ' (' + report.geometries + ' geometries)',
+            'Audio: ' + report.audioBuffers + ' buffers (' + report.audioSeconds.toFixed(1) + ' s, ' + toMB(report.audioBytes) + ')',
+            'GPU: ' + report.gpuTextures + ' textures, ' + report.gpuGeometries + ' geometries',
+            ...report.bundles.map(bundle => 'Bundle ' + bundle.name + ': ' + bundle.holders.join(', '))
+        ];
+        assetMemoryInfo.innerHTML = '';
+        for (const text of lines) {
+            const line = document.createElement('div');
+            line.textContent = text;
+            assetMemoryInfo.appendChild(line);
+        }
+    }
+
+    private updateOfflineCacheInfo(): void {
+        const offlineCacheInfo = this.debugOverlay?.querySelector<HTMLSpanElement>('#debug-offline-cache-info');
+        if (!offlineCacheInfo || !this.gameEngine.assetLoader) return;
+
+        this.gameEngine.assetLoader.getCacheStatus().then(status => {
+            if (status.state !== 'active') {
+                offlineCacheInfo.textContent = status.state === 'unsupported' ? 'Not supported' : 'No service worker yet (reload)';
+                return;
+            }
+            offlineCacheInfo.textContent = status.cachedAssets + ' / ' + status.totalAssets + ' files (build ' + status.version + ')' +
+                (status.downloading ? ', downloading...' : '');
+        }).catch(error => {
+            offlineCacheInfo.textContent = 'Unavailable: ' + error.message;
+        });
+    }
+
+    // Applies to sounds loaded after the change; the ones in memory stay as they are
+    private updateAudioQualityInfo(): void {
+        const audioQualitySelect = this.debugOverlay?.querySelector<HTMLSelectElement>('#debug-audio-quality-selector');
+        const audioQualityInfo = this.debugOverlay?.querySelector<HTMLSpanElement>('#debug-audio-quality-info');
+        if (!audioQualitySelect || !audioQualityInfo || !this.gameEngine.assetLoader) return;
+
+        const assetLoader = this.gameEngine.assetLoader;
+        audioQualitySelect.value = assetLoader.getAudioQualitySetting();
+        audioQualityInfo.textContent = assetLoader.getAudioQuality() + ', plays ' + (assetLoader.getPlayableAudioFormats().join('/') || 'none');
+    }
+
+    private updateVolumeInfo(): void {
+        if (!this.debugOverlay || !this.gameEngine.soundManager) return;
+        const volumes = this.gameEngine.soundManager.mixer.getVolumes();
+        for (const bus of AUDIO_BUSES) {
+            const busSlider = this.debugOverlay.querySelector<HTMLInputElement>('#debug-volume-' + bus);
+            if (busSlider) {
+                busSlider.value = String(volumes[bus]);
+            }
+        }
+    }
+
     public getInitialScene(): string | null {
         return localStorage.getItem(this.initialSceneStorageKey);
     }
@@ -633,6 +950,13 @@ void main(){
         if (!this.debugOverlay) return;
         // Re-populate scenes every time it's shown in case new scenes were added
         this.populateSceneSelector();
+        this.updateSaveSlotInfo();
+        this.updateSceneGraphInfo();
+        this.updateAssetErrorInfo();
+        this.updateAssetMemoryInfo();
+        this.updateOfflineCacheInfo();
+        this.updateAudioQualityInfo();
+        this.updateVolumeInfo();
         this.debugOverlay.style.display = 'block';
         console.log("Debug overlay shown.");
     }
@@ -746,6 +1070,16 @@ private updateFPSCounter(): void {
     }
 }
 
+// Called by CharacterManager whenever control moves between João and Nyx
+public onCharacterChanged(character: CharacterId | null): void {
+    this.messageColor = this.characterMessageColors[character ?? 'Joao'];
+    const characterValue = this.debugOverlay?.querySelector<HTMLSpanElement>('#debug-character-value');
+    if (characterValue) {
+        characterValue.textContent = character ?? 'None';
+    }
+    console.log("UIManager: Presentation switched to " + character);
+}
+
 public showScreen(screenId: string): void {
     console.log("UIManager: Showing screen " + screenId + " (placeholder)");
     // Placeholder for other UI screens
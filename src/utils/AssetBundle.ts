@@ -0,0 +1,36 @@
+// src/utils/AssetBundle.ts
+import * as THREE from 'three';
+import { AssetLoader } from './AssetLoader';
+import { TextureAtlas } from './TextureAtlas';
+import { BundleName, BundleTextureId, BundleAtlasId, BundleModelId, BundleAudioId } from './AssetManifest';
+
+// Handle returned by AssetLoader.loadBundle(); only hands out ids that belong to its bundle.
+// Keeps the bundle's assets cached until released.
+export class AssetBundle<B extends BundleName> {
+    constructor(
+        public readonly name: B,
+        private assetLoader: AssetLoader,
+        public readonly owner: string | null = null
+    ) {}
+
+    public texture(id: BundleTextureId<B>): THREE.Texture {
+        return this.assetLoader.getTexture(id);
+    }
+
+    public atlas(id: BundleAtlasId<B>): TextureAtlas {
+        return this.assetLoader.getAtlas(id);
+    }
+
+    public model(id: BundleModelId<B>): THREE.Group {
+        return this.assetLoader.getModel(id);
+    }
+
+    public audio(id: BundleAudioId<B>): AudioBuffer {
+        return this.assetLoader.getAudio(id);
+    }
+
+    // Anything still showing the bundle's assets must be gone by then, unless another handle holds them too
+    public release(): void {
+        this.assetLoader.releaseHandle(this);
+    }
+}
@@ -4,6 +4,80 @@ import { GLTFLoader } from 'three/examples/jsm/loaders/GLTFLoader';
 import { KTX2Loader } from 'three/examples/jsm/loaders/KTX2Loader';
 import { MeshoptDecoder } from 'three/examples/jsm/libs/meshopt_decoder.module.js';
 import { GameEngine } from '../core/GameEngine';
+import { ResourceDisposer } from './ResourceDisposer';
+import { AssetBundle } from './AssetBundle';
+import { TextureAtlas, TexturePackerData, parseTexturePackerData } from './TextureAtlas';
+import {
+    ASSET_MANIFEST, ASSET_BUNDLES, ASSET_LOAD_POLICIES,
+    AssetLoadPolicy, BundleName, BundleDefinition, TextureId, AtlasId, ModelId, AudioId,
+    AudioFormat, AudioQuality, AudioVariant
+} from './AssetManifest';
+import { AUDIO_VARIANTS } from './AudioVariants';
+
+// What the cached assets take up, for the debug overlay. Texture bytes are estimated from the image size.
+export interface AssetMemoryReport {
+    textures: number; // Including atlas sheets
+    textureBytes: number;
+    models: number;
+    geometries: number; // Distinct geometries in the cached models
+    audioBuffers: number;
+    audioSeconds: number;
+    audioBytes: number;
+    gpuTextures: number; // As counted by the renderer, so including render targets and generated textures
+    gpuGeometries: number;
+    bundles: Array<{ name: BundleName, holders: string[] }>; // Bundles with live handles, and who holds them
+}
+
+// What the service worker (src/service-worker.js) has cached for offline play.
+// 'uncontrolled': supported, but no worker controls this page yet (first visit, or a hard reload)
+export interface AssetCacheStatus {
+    state: 'unsupported' | 'uncontrolled' | 'active';
+    version: string | null; // Build the cache belongs to
+    cachedAssets: number;
+    totalAssets: number;
+    downloading: boolean; // Whether the worker is still fetching assets for offline play
+}
+
+// How far a set of files has got; bytes only cover files whose size is known so far
+export interface AssetLoadProgress {
+    loadedItems: number;
+    totalItems: number;
+    loadedBytes: number;
+    totalBytes: number;
+}
+
+type AssetType = 'texture' | 'atlas' | 'model' | 'audio';
+type LoadedAsset = THREE.Texture | TextureAtlas | AudioBuffer | THREE.Group;
+
+// A load that didn't succeed on its first try, for the debug overlay
+export interface AssetLoadFailure {
+    type: AssetType;
+    id: string | null;
+    path: string;
+    attempts: number;
+    error: string; // Last error seen
+    resolution: 'retried' | 'alternate' | 'placeholder' | 'failed';
+    time: number;
+}
+
+// Policies used unless ASSET_LOAD_POLICIES says otherwise; models are big and have no sensible stand-in
+const DEFAULT_LOAD_POLICIES: { [type in AssetType]: Required<AssetLoadPolicy> } = {
+    texture: { retries: 2, timeoutMs: 15000, fallback: 'placeholder' },
+    atlas: { retries: 2, timeoutMs: 20000, fallback: 'placeholder' },
+    audio: { retries: 2, timeoutMs: 20000, fallback: 'placeholder' },
+    model: { retries: 2, timeoutMs: 45000, fallback: 'fail' }
+};
+const RETRY_BACKOFF_MS = 500; // Doubled for every further retry
+const CACHE_STATUS_TIMEOUT_MS = 5000;
+const MAX_REPORTED_FAILURES = 50;
+
+// What canPlayType() is asked for each variant format, in order of preference (smallest files first)
+const AUDIO_FORMAT_TYPES: Array<[AudioFormat, string]> = [
+    ['opus', 'audio/ogg; codecs="opus"'],
+    ['ogg', 'audio/ogg; codecs="vorbis"'],
+    ['mp3', 'audio/mpeg']
+];
+const AUDIO_QUALITY_STORAGE_KEY = 'aion_audio_quality';
 
 export class AssetLoader {
     private loadingManager: THREE.LoadingManager;
@@ -12,12 +86,23 @@ export class AssetLoader {
     private textureCache: Map<string, THREE.Texture>;
     private audioCache: Map<string, AudioBuffer>;
     private modelCache: Map<string, THREE.Group>;
+    private atlasCache: Map<string, TextureAtlas>; // By resolved path of the JSON file
     private defaultTexture: THREE.Texture;
     private defaultAudioBuffer: AudioBuffer;
     private ktx2Loader: KTX2Loader;
 
-    private _isLoadComplete: boolean = false; // Flag to track initial load completion
-    private pendingPromises: Promise<THREE.Texture | AudioBuffer | THREE.Group>[] = []; // Track all pending load operations
+    private inflightLoads: Map<string, Promise<LoadedAsset>> = new Map(); // By resolved path, so a preload and the scene share one request
+    private settledLoads: Set<string> = new Set(); // Resolved paths that finished loading, successfully or not
+    private byteProgress: Map<string, { loaded: number, total: number }> = new Map(); // By resolved path
+    private itemsLoaded: number = 0; // Reported by the LoadingManager
+    private itemsTotal: number = 0;
+    private bundleHandles: Set<AssetBundle<BundleName>> = new Set(); // Live handles, each holding a reference to its bundle's assets
+    private assetRefs: Map<string, number> = new Map(); // Resolved path -> live handles whose bundle contains it
+    private loadFailures: AssetLoadFailure[] = [];
+    private failureListeners: Array<(failure: AssetLoadFailure) => void> = [];
+    private audioEvictionListeners: Array<(buffer: AudioBuffer) => void> = [];
+    private playableAudioFormats: AudioFormat[]; // In order of preference
+    private audioQuality: AudioQuality | 'auto';
 
     constructor(private gameEngine: GameEngine) {
         this.defaultTexture = this.createDefaultTexture();
@@ -27,21 +112,23 @@ export class AssetLoader {
             // onLoad callback for the manager itself
             () => {
                 console.log('[AssetLoader] Initial loading complete (LoadingManager onLoad).');
-                this._isLoadComplete = true;
             },
-            // onProgress (optional)
-            undefined,
-            // onError callback for the manager itself
+            // onProgress: called each time one of its items finishes
+            (url, itemsLoaded, itemsTotal) => {
+                this.itemsLoaded = itemsLoaded;
+                this.itemsTotal = itemsTotal;
+                console.log(`[AssetLoader] ${itemsLoaded}/${itemsTotal} loaded (${url})`);
+            },
+            // onError callback for the manager itself; retries and fallbacks are handled per load
             (url) => {
                 console.error(`[AssetLoader] Loading error on URL: ${url} (LoadingManager onError).`);
-                // We might still consider loading "complete" even on error, depending on desired behavior
-                // this._isLoadComplete = true; // Uncomment if errors shouldn't block completion check
             }
         );
         this.textureLoader = new THREE.TextureLoader(this.loadingManager);
         this.textureCache = new Map();
         this.audioCache = new Map();
         this.modelCache = new Map();
+        this.atlasCache = new Map();
         this.audioLoader = new THREE.AudioLoader(this.loadingManager);
 
         // Initialize KTX2 loader for GLTF models
@@ -51,6 +138,19 @@ export class AssetLoader {
         // Create default silent audio buffer
         const audioContext = new (window.AudioContext || (window as any).webkitAudioContext)(); // eslint-disable-line @typescript-eslint/no-explicit-any
         this.defaultAudioBuffer = audioContext.createBuffer(1, 1, 22050); // 1 channel, 1 sample, 22.05kHz
+
+        this.playableAudioFormats = this.detectPlayableAudioFormats();
+        const storedQuality = localStorage.getItem(AUDIO_QUALITY_STORAGE_KEY);
+        this.audioQuality = storedQuality === 'low' || storedQuality === 'high' ? storedQuality : 'auto';
+        console.log(`[AssetLoader] Playable audio formats: ${this.playableAudioFormats.join(', ') || 'none reported'}; quality: ${this.getAudioQuality()} (${this.audioQuality})`);
+    }
+
+    // "maybe" counts: browsers rarely answer "probably", and a variant that fails to decode falls back to the MP3
+    private detectPlayableAudioFormats(): AudioFormat[] {
+        const audio = document.createElement('audio');
+        return AUDIO_FORMAT_TYPES
+            .filter(([, mimeType]) => audio.canPlayType(mimeType) !== '')
+            .map(([format]) => format);
     }
 
     private createDefaultTexture(): THREE.Texture {
@@ -74,218 +174,661 @@ export class AssetLoader {
         return texture;
     }
 
-    public async loadTexture(url: string): Promise<THREE.Texture> {
-        // Check cache first
-        if (this.textureCache.has(url)) {
-            return this.textureCache.get(url)!;
-        }
-
-        const loadPromise = new Promise<THREE.Texture>((resolve) => {
-            // Handle paths that may or may not already include 'assets/'
-            const cleanPath = url.startsWith('assets/') ? url : `assets/${url}`;
-            console.log(`AssetLoader: Loading texture from resolved path: ${cleanPath}`);
-            this.textureLoader.load(
-                cleanPath,
-                (texture) => {
-                    texture.name = cleanPath; // Set the texture name to the path it was loaded from
-                    console.log(`AssetLoader: Successfully loaded texture from ${cleanPath} (Name: ${texture.name})`);
-                    this.textureCache.set(url, texture); // Cache using the original URL key
-                    resolve(texture);
-                },
-                undefined,
-                (error: unknown) => {
-                    console.error(`AssetLoader: Error loading texture from ${cleanPath}:`, error);
-                    let errorMessage = 'Unknown error';
-                    if (error instanceof Error) {
-                        errorMessage = error.message;
-                    } else if (error && typeof error === 'object' && 'type' in error) {
-                        errorMessage = 'Network or file loading error';
-                    } else {
-                        errorMessage = String(error);
-                    }
-                    console.error(`AssetLoader: Using default texture for ${cleanPath} due to error: ${errorMessage}`);
-                    console.error(`AssetLoader: Full error details for ${cleanPath}:`, {
-                        errorType: typeof error,
-                        errorObject: error,
-                        stack: error instanceof Error ? error.stack : undefined
-                    });
-                    this.textureCache.set(url, this.defaultTexture);
-                    resolve(this.defaultTexture);
-                }
-            );
-        });
-        this.pendingPromises.push(loadPromise);
+    // Manifest paths are relative to the assets/ folder
+    private resolvePath(url: string): string {
+        return `assets/${url}`;
+    }
+
+    private trackInflight<T extends LoadedAsset>(cleanPath: string, loadPromise: Promise<T>): Promise<T> {
+        this.inflightLoads.set(cleanPath, loadPromise);
+        const clear = () => {
+            this.inflightLoads.delete(cleanPath);
+            this.settledLoads.add(cleanPath);
+            // Files that never reported a length count as fully downloaded once done
+            const bytes = this.byteProgress.get(cleanPath);
+            if (bytes && bytes.total < bytes.loaded) {
+                bytes.total = bytes.loaded;
+            }
+        };
+        loadPromise.then(clear, clear);
         return loadPromise;
     }
 
-    public async loadAudio(url: string): Promise<AudioBuffer> {
-        // Check cache first
-        if (this.audioCache.has(url)) {
-            return this.audioCache.get(url)!;
-        }
-
-        const loadPromise = new Promise<AudioBuffer>((resolve) => {
-            // Handle paths that may or may not already include 'assets/'
-            const cleanPath = url.startsWith('assets/') ? url : `assets/${url}`;
-            console.log(`AssetLoader: Loading audio from resolved path: ${cleanPath}`);
-
-            this.audioLoader.load(
-                cleanPath,
-                (audioBuffer) => {
-                    console.log(`AssetLoader: Successfully loaded audio from ${cleanPath}`);
-                    this.audioCache.set(url, audioBuffer);
-                    resolve(audioBuffer);
-                },
-                undefined,
-                (error: unknown) => {
-                    console.error(`AssetLoader: Error loading audio from ${cleanPath}:`, error);
-                    let errorMessage = 'Unknown error';
-                    if (error instanceof Error) {
-                        errorMessage = error.message;
-                    } else if (error && typeof error === 'object' && 'type' in error) {
-                        errorMessage = 'Network or file loading error';
-                    } else {
-                        errorMessage = String(error);
-                    }
-                    console.error(`AssetLoader: Full error details for ${cleanPath}:`, {
-                        errorType: typeof error,
-                        errorObject: error,
-                        stack: error instanceof Error ? error.stack : undefined
-                    });
-                    console.error(`AssetLoader: Using default silent audio for ${cleanPath} due to error: ${errorMessage}`);
-                    this.audioCache.set(url, this.defaultAudioBuffer);
-                    resolve(this.defaultAudioBuffer);
+    // onProgress handler for loaders built on FileLoader (audio, glTF)
+    private trackBytes(cleanPath: string): (event: ProgressEvent) => void {
+        return (event) => {
+            this.byteProgress.set(cleanPath, { loaded: event.loaded, total: event.lengthComputable ? event.total : 0 });
+        };
+    }
+
+    // TextureLoader doesn't report progress, so take the size from the browser's resource timing instead
+    private recordResourceSize(path: string, cleanPath: string): void {
+        const entries = performance.getEntriesByName(new URL(path, document.baseURI).href) as PerformanceResourceTiming[];
+        const size = entries.length > 0 ? entries[entries.length - 1].encodedBodySize : 0;
+        if (size > 0) {
+            this.byteProgress.set(cleanPath, { loaded: size, total: size });
+        }
+    }
+
+    public loadTexture(id: TextureId): Promise<THREE.Texture> {
+        return this.loadTextureFile(ASSET_MANIFEST.textures[id], id);
+    }
+
+    public loadAtlas(id: AtlasId): Promise<TextureAtlas> {
+        return this.loadAtlasFile(ASSET_MANIFEST.atlases[id], id);
+    }
+
+    public loadAudio(id: AudioId): Promise<AudioBuffer> {
+        return this.loadAudioFile(ASSET_MANIFEST.audio[id], id);
+    }
+
+    public loadModel(id: ModelId): Promise<THREE.Group> {
+        return this.loadModelFile(ASSET_MANIFEST.models[id], id);
+    }
+
+    /**
+     * Which variants of the sounds to load: 'low' for the mono, low bitrate ones, 'high' for stereo.
+     * 'auto' picks 'low' when the browser asks to save data or is on a 2G/3G connection.
+     * Stored for the next visit; sounds already loaded keep the variant they were loaded with.
+     */
+    public setAudioQuality(quality: AudioQuality | 'auto'): void {
+        this.audioQuality = quality;
+        if (quality === 'auto') {
+            localStorage.removeItem(AUDIO_QUALITY_STORAGE_KEY);
+        } else {
+            localStorage.setItem(AUDIO_QUALITY_STORAGE_KEY, quality);
+        }
+        console.log(`[AssetLoader] Audio quality set to ${quality} (${this.getAudioQuality()}).`);
+    }
+
+    public getAudioQualitySetting(): AudioQuality | 'auto' {
+        return this.audioQuality;
+    }
+
+    // The quality 'auto' stands for right now
+    public getAudioQuality(): AudioQuality {
+        if (this.audioQuality !== 'auto') return this.audioQuality;
+        const connection = (navigator as Navigator & { connection?: { saveData?: boolean, effectiveType?: string } }).connection;
+        const slow = connection?.effectiveType === 'slow-2g' || connection?.effectiveType === '2g' || connection?.effectiveType === '3g';
+        return connection?.saveData || slow ? 'low' : 'high';
+    }
+
+    public getPlayableAudioFormats(): AudioFormat[] {
+        return [...this.playableAudioFormats];
+    }
+
+    /**
+     * The variant of a sound to load instead of its manifest MP3: one of the current quality in the
+     * most preferred format the browser plays. null when there is none, as the manifest MP3 is the
+     * high quality stereo encoding that every browser plays.
+     */
+    private chooseAudioVariant(id: AudioId): AudioVariant | null {
+        const quality = this.getAudioQuality();
+        const candidates = (AUDIO_VARIANTS[id] ?? []).filter(variant =>
+            variant.quality === quality && this.playableAudioFormats.includes(variant.format));
+        if (candidates.length === 0) return null;
+        return candidates.reduce((best, variant) =>
+            this.playableAudioFormats.indexOf(variant.format) < this.playableAudioFormats.indexOf(best.format) ? variant : best);
+    }
+
+    // Already loaded assets, for bundle handles. Falls back like a failed load would.
+    public getTexture(id: TextureId): THREE.Texture {
+        const texture = this.textureCache.get(this.resolvePath(ASSET_MANIFEST.textures[id]));
+        if (!texture) {
+            console.warn(`[AssetLoader] Texture "${id}" requested before its bundle was loaded.`);
+            return this.defaultTexture;
+        }
+        return texture;
+    }
+
+    public getAtlas(id: AtlasId): TextureAtlas {
+        const atlas = this.atlasCache.get(this.resolvePath(ASSET_MANIFEST.atlases[id]));
+        if (!atlas) {
+            console.warn(`[AssetLoader] Atlas "${id}" requested before its bundle was loaded.`);
+            return this.createPlaceholderAtlas(id);
+        }
+        return atlas;
+    }
+
+    public getAudio(id: AudioId): AudioBuffer {
+        const buffer = this.audioCache.get(this.resolvePath(ASSET_MANIFEST.audio[id]));
+        if (!buffer) {
+            console.warn(`[AssetLoader] Audio "${id}" requested before its bundle was loaded.`);
+            return this.defaultAudioBuffer;
+        }
+        return buffer;
+    }
+
+    public getModel(id: ModelId): THREE.Group {
+        const model = this.modelCache.get(this.resolvePath(ASSET_MANIFEST.models[id]));
+        if (!model) {
+            throw new Error(`Model "${id}" is not loaded (its bundle failed or was never loaded)`);
+        }
+        return model;
+    }
+
+    private loadTextureFile(url: string, id?: TextureId): Promise<THREE.Texture> {
+        const cleanPath = this.resolvePath(url);
+        // Check cache first, then whether it is already on its way
+        if (this.textureCache.has(cleanPath)) {
+            return Promise.resolve(this.textureCache.get(cleanPath)!);
+        }
+        if (this.inflightLoads.has(cleanPath)) {
+            return this.inflightLoads.get(cleanPath) as Promise<THREE.Texture>;
+        }
+
+        console.log(`AssetLoader: Loading texture from resolved path: ${cleanPath}`);
+        const loadPromise = this.loadWithPolicy('texture', cleanPath, id, path => this.requestTexture(path, cleanPath), () => this.defaultTexture)
+            .then(texture => {
+                this.textureCache.set(cleanPath, texture);
+                return texture;
+            });
+        return this.trackInflight(cleanPath, loadPromise);
+    }
+
+    private loadAtlasFile(url: string, id?: AtlasId): Promise<TextureAtlas> {
+        const cleanPath = this.resolvePath(url);
+        // Check cache first, then whether it is already on its way
+        if (this.atlasCache.has(cleanPath)) {
+            return Promise.resolve(this.atlasCache.get(cleanPath)!);
+        }
+        if (this.inflightLoads.has(cleanPath)) {
+            return this.inflightLoads.get(cleanPath) as Promise<TextureAtlas>;
+        }
+
+        console.log(`AssetLoader: Loading atlas from resolved path: ${cleanPath}`);
+        const loadPromise = this.loadWithPolicy('atlas', cleanPath, id, path => this.requestAtlas(path, cleanPath), () => this.createPlaceholderAtlas(url))
+            .then(atlas => {
+                this.atlasCache.set(cleanPath, atlas);
+                return atlas;
+            });
+        return this.trackInflight(cleanPath, loadPromise);
+    }
+
+    // No frames: every frame asked for comes back as the default texture
+    private createPlaceholderAtlas(name: string): TextureAtlas {
+        return new TextureAtlas(name, null, { w: 1, h: 1 }, new Map(), this.defaultTexture);
+    }
+
+    private loadAudioFile(url: string, id?: AudioId): Promise<AudioBuffer> {
+        const cleanPath = this.resolvePath(url);
+        // Check cache first, then whether it is already on its way
+        if (this.audioCache.has(cleanPath)) {
+            return Promise.resolve(this.audioCache.get(cleanPath)!);
+        }
+        if (this.inflightLoads.has(cleanPath)) {
+            return this.inflightLoads.get(cleanPath) as Promise<AudioBuffer>;
+        }
+
+        // Cached under the manifest path whichever file is loaded, so bundles and getAudio() don't need to know
+        const variant = id ? this.chooseAudioVariant(id) : null;
+        let variantPath = variant ? this.resolvePath(variant.path) : null;
+        console.log(`AssetLoader: Loading audio from resolved path: ${variantPath ?? cleanPath}`);
+        const request = async (path: string): Promise<AudioBuffer> => {
+            if (variantPath && path === cleanPath) {
+                try {
+                    return await this.requestAudio(variantPath, cleanPath);
+                } catch (error) {
+                    // Not worth retrying: the browser may well not decode it despite canPlayType()
+                    console.warn(`AssetLoader: Could not load variant ${variantPath}, using ${cleanPath} instead:`, error);
+                    variantPath = null;
                 }
-            );
-        });
-        this.pendingPromises.push(loadPromise);
-        return loadPromise;
+            }
+            return this.requestAudio(path, cleanPath);
+        };
+        const loadPromise = this.loadWithPolicy('audio', cleanPath, id, request, () => this.defaultAudioBuffer)
+            .then(audioBuffer => {
+                this.audioCache.set(cleanPath, audioBuffer);
+                return audioBuffer;
+            });
+        return this.trackInflight(cleanPath, loadPromise);
     }
 
-    public async loadModel(url: string): Promise<THREE.Group> {
-        // Check cache first
-        if (this.modelCache.has(url)) {
-            return this.modelCache.get(url)!;
+    private loadModelFile(url: string, id?: ModelId): Promise<THREE.Group> {
+        const cleanPath = this.resolvePath(url);
+        // Check cache first, then whether it is already on its way
+        if (this.modelCache.has(cleanPath)) {
+            return Promise.resolve(this.modelCache.get(cleanPath)!);
+        }
+        if (this.inflightLoads.has(cleanPath)) {
+            return this.inflightLoads.get(cleanPath) as Promise<THREE.Group>;
         }
 
+        console.log(`AssetLoader: Loading model from resolved path: ${cleanPath}`);
+        const placeholder = () => {
+            const group = new THREE.Group();
+            group.name = `${url}_placeholder`;
+            return group;
+        };
+        const loadPromise = this.loadWithPolicy('model', cleanPath, id, path => this.requestModel(path, cleanPath), placeholder)
+            .then(model => {
+                this.modelCache.set(cleanPath, model);
+                return model;
+            });
+        return this.trackInflight(cleanPath, loadPromise);
+    }
+
+    /**
+     * Runs a load with the asset's policy: each attempt is timed out and failed attempts are retried
+     * with exponential backoff. If all of them fail the declared fallback decides what happens.
+     * Anything other than a clean first-try success ends up in the error report.
+     */
+    private async loadWithPolicy<T>(type: AssetType, cleanPath: string, id: string | undefined, request: (path: string) => Promise<T>, placeholder: () => T): Promise<T> {
+        const policy: Required<AssetLoadPolicy> = {
+            ...DEFAULT_LOAD_POLICIES[type],
+            ...(id ? ASSET_LOAD_POLICIES[id as keyof typeof ASSET_LOAD_POLICIES] : undefined)
+        };
+        const report = (attempts: number, error: unknown, resolution: AssetLoadFailure['resolution']) => {
+            this.recordFailure({ type, id: id ?? null, path: cleanPath, attempts, error: this.describeError(error), resolution, time: Date.now() });
+        };
+
+        let attempts = 0;
+        let lastError: unknown;
+        for (let attempt = 0; attempt <= policy.retries; attempt++) {
+            if (attempt > 0) {
+                await this.wait(RETRY_BACKOFF_MS * 2 ** (attempt - 1));
+                console.warn(`AssetLoader: Retrying ${cleanPath} (attempt ${attempt + 1}/${policy.retries + 1})`);
+            }
+            attempts++;
+            try {
+                const result = await this.withTimeout(request(cleanPath), policy.timeoutMs, cleanPath);
+                if (attempts > 1) {
+                    report(attempts, lastError, 'retried');
+                }
+                return result;
+            } catch (error) {
+                lastError = error;
+                console.error(`AssetLoader: Error loading ${type} from ${cleanPath}:`, error);
+            }
+        }
+
+        if (typeof policy.fallback === 'object') {
+            const alternatePath = this.resolvePath(policy.fallback.alternate);
+            console.warn(`AssetLoader: Trying alternate ${alternatePath} for ${cleanPath}`);
+            attempts++;
+            try {
+                const result = await this.withTimeout(request(alternatePath), policy.timeoutMs, alternatePath);
+                report(attempts, lastError, 'alternate');
+                return result;
+            } catch (error) {
+                lastError = error;
+            }
+        }
+
+        if (policy.fallback === 'fail') {
+            report(attempts, lastError, 'failed');
+            throw new Error(`Failed to load ${type} from ${cleanPath}: ${this.describeError(lastError)}`);
+        }
+        console.error(`AssetLoader: Using placeholder ${type} for ${cleanPath}`);
+        report(attempts, lastError, 'placeholder');
+        return placeholder();
+    }
+
+    // One attempt at each kind of file; these reject on any error
+    private requestTexture(path: string, cleanPath: string): Promise<THREE.Texture> {
+        return new Promise((resolve, reject) => {
+            this.textureLoader.load(path, (texture) => {
+                texture.name = path; // Set the texture name to the path it was loaded from
+                this.recordResourceSize(path, cleanPath);
+                console.log(`AssetLoader: Successfully loaded texture from ${path} (Name: ${texture.name})`);
+                resolve(texture);
+            }, undefined, reject);
+        });
+    }
+
+    // The JSON, then its sheet; both count towards the atlas' progress and a failure of either retries both
+    private async requestAtlas(path: string, cleanPath: string): Promise<TextureAtlas> {
+        const fileLoader = new THREE.FileLoader(this.loadingManager).setResponseType('json');
+        const data = await new Promise<TexturePackerData>((resolve, reject) => {
+            fileLoader.load(path, (json) => resolve(json as unknown as TexturePackerData), undefined, reject);
+        });
+        const { image, size, frames } = parseTexturePackerData(data, path);
+
+        const sheetPath = path.substring(0, path.lastIndexOf('/') + 1) + image;
+        const sheet = await this.requestTexture(sheetPath, cleanPath);
+        console.log(`AssetLoader: Successfully loaded atlas from ${path} (${frames.size} frames)`);
+        return new TextureAtlas(path, sheet, size, frames, this.defaultTexture);
+    }
+
+    private requestAudio(path: string, cleanPath: string): Promise<AudioBuffer> {
+        return new Promise((resolve, reject) => {
+            this.audioLoader.load(path, (audioBuffer) => {
+                console.log(`AssetLoader: Successfully loaded audio from ${path}`);
+                resolve(audioBuffer);
+            }, this.trackBytes(cleanPath), reject);
+        });
+    }
+
+    private requestModel(path: string, cleanPath: string): Promise<THREE.Group> {
         const gltfLoader = new GLTFLoader(this.loadingManager)
             .setKTX2Loader(this.ktx2Loader)
             .setMeshoptDecoder(MeshoptDecoder);
-        const loadPromise = new Promise<THREE.Group>((resolve, reject) => {
-            const cleanPath = url.startsWith('assets/') ? url : `assets/${url}`;
-            console.log(`AssetLoader: Loading model from resolved path: ${cleanPath}`);
-
-            gltfLoader.load(
-                cleanPath,
-                (gltf) => {
-                    console.log(`AssetLoader: Successfully loaded model from ${cleanPath}`);
-                    const model = gltf.scene;
-
-                    // Create pivot group for centered rotation
-                    const pivot = new THREE.Group();
-                    const box = new THREE.Box3().setFromObject(model);
-                    const center = new THREE.Vector3();
-                    box.getCenter(center);
-
-                    // Position pivot at scene center (0,0,0)
-                    pivot.position.set(0, 0, 0);
-                    pivot.add(model);
-
-                    // Offset model within pivot to center it
-                    model.position.copy(center).negate();
-
-                    // Apply scale to pivot (1:1 by default)
-                    pivot.scale.set(1, 1, 1);
-                    pivot.name = `${url}_pivot`; // Name the pivot for potential debugging
-
-                    this.modelCache.set(url, pivot); // Cache the pivot group
-                    resolve(pivot); // Resolve the promise with the pivot group
-                },
-                undefined,
-                (error: unknown) => {
-                    console.error(`AssetLoader: Error loading model from ${cleanPath}:`, error);
-                    let errorMessage = 'Unknown error';
-                    if (error instanceof Error) {
-                        errorMessage = error.message;
-                    } else if (error && typeof error === 'object' && 'type' in error) {
-                        errorMessage = 'Network or file loading error';
-                    } else {
-                        errorMessage = String(error);
-                    }
-                    console.error(`AssetLoader: Full error details for ${cleanPath}:`, {
-                        errorType: typeof error,
-                        errorObject: error,
-                        stack: error instanceof Error ? error.stack : undefined
-                    });
-                    reject(new Error(`Failed to load model from ${cleanPath}: ${errorMessage}`));
-                }
+        return new Promise((resolve, reject) => {
+            gltfLoader.load(path, (gltf) => {
+                console.log(`AssetLoader: Successfully loaded model from ${path}`);
+                const model = gltf.scene;
+
+                // Create pivot group for centered rotation
+                const pivot = new THREE.Group();
+                const box = new THREE.Box3().setFromObject(model);
+                const center = new THREE.Vector3();
+                box.getCenter(center);
+
+                // Position pivot at scene center (0,0,0)
+                pivot.position.set(0, 0, 0);
+                pivot.add(model);
+
+                // Offset model within pivot to center it
+                model.position.copy(center).negate();
+
+                // Apply scale to pivot (1:1 by default)
+                pivot.scale.set(1, 1, 1);
+                pivot.name = `${path}_pivot`; // Name the pivot for potential debugging
+                resolve(pivot);
+            }, this.trackBytes(cleanPath), reject);
+        });
+    }
+
+    private withTimeout<T>(promise: Promise<T>, timeoutMs: number, path: string): Promise<T> {
+        return new Promise<T>((resolve, reject) => {
+            // three's loaders can't be aborted; a late result is simply ignored
+            const timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms: ${path}`)), timeoutMs);
+            promise.then(
+                result => { clearTimeout(timer); resolve(result); },
+                error => { clearTimeout(timer); reject(error); }
             );
         });
-        this.pendingPromises.push(loadPromise);
-        return loadPromise;
     }
 
-    // Method to load multiple assets, perhaps for a specific scene
-    public async loadAssets(assetList: { type: string, url: string, name: string }[]): Promise<Map<string, any>> { // eslint-disable-line @typescript-eslint/no-explicit-any
-        console.log("AssetLoader: Loading multiple assets (placeholder)");
-        const loadedAssets = new Map<string, any>(); // eslint-disable-line @typescript-eslint/no-explicit-any
-        // Implement logic to iterate through assetList and call appropriate load methods
-        for (const asset of assetList) {
-            try {
-                if (asset.type === 'texture') {
-                    const texture = await this.loadTexture(asset.url);
-                    loadedAssets.set(asset.name, texture);
-                } else if (asset.type === 'model') {
-                    const model = await this.loadModel(asset.url);
-                    loadedAssets.set(asset.name, model);
-                } else if (asset.type === 'audio') {
-                    const audio = await this.loadAudio(asset.url);
-                    loadedAssets.set(asset.name, audio);
+    private wait(ms: number): Promise<void> {
+        return new Promise(resolve => setTimeout(resolve, ms));
+    }
+
+    private describeError(error: unknown): string {
+        if (error instanceof Error) {
+            return error.message;
+        } else if (error && typeof error === 'object' && 'type' in error) {
+            return 'Network or file loading error';
+        }
+        return String(error);
+    }
+
+    private recordFailure(failure: AssetLoadFailure): void {
+        this.loadFailures.push(failure);
+        if (this.loadFailures.length > MAX_REPORTED_FAILURES) {
+            this.loadFailures.shift();
+        }
+        for (const listener of this.failureListeners) {
+            listener(failure);
+        }
+    }
+
+    // Every load that needed a retry or a fallback, oldest first
+    public getErrorReport(): AssetLoadFailure[] {
+        return [...this.loadFailures];
+    }
+
+    public onLoadFailure(callback: (failure: AssetLoadFailure) => void): void {
+        this.failureListeners.push(callback);
+    }
+
+    // Called with each audio buffer dropped from the cache, so whoever still plays it can let go too
+    public onAudioEvicted(callback: (buffer: AudioBuffer) => void): void {
+        this.audioEvictionListeners.push(callback);
+    }
+
+    /**
+     * Loads every asset of the bundle in parallel and returns a handle that holds a reference to
+     * them until it is released; assets no handle holds any more are evicted. An owner (SceneManager
+     * uses scene ids) holds a bundle at most once: loading it again returns the same handle.
+     * Never rejects: failures are logged, and the handle gives the default texture / silent audio
+     * in their place (a missing model throws when it is asked for).
+     */
+    public async loadBundle<B extends BundleName>(name: B, owner?: string, onProgress?: (progress: AssetLoadProgress) => void): Promise<AssetBundle<B>> {
+        // Taken before loading, so releasing another handle meanwhile doesn't evict what this one is waiting for
+        const handle = this.acquireBundle(name, owner);
+
+        const bundle: BundleDefinition = ASSET_BUNDLES[name];
+        const loads: Promise<unknown>[] = [
+            ...(bundle.textures ?? []).map(id => this.loadTexture(id)),
+            ...(bundle.atlases ?? []).map(id => this.loadAtlas(id)),
+            ...(bundle.models ?? []).map(id => this.loadModel(id)),
+            ...(bundle.audio ?? []).map(id => this.loadAudio(id))
+        ].map(load => load.catch(error => {
+            console.error(`[AssetLoader] Asset in bundle "${name}" failed to load:`, error);
+        }).then(() => {
+            onProgress?.(this.getBundleProgress([name]));
+        }));
+        await Promise.all(loads);
+        return handle;
+    }
+
+    private acquireBundle<B extends BundleName>(name: B, owner?: string): AssetBundle<B> {
+        if (owner !== undefined) {
+            for (const handle of this.bundleHandles) {
+                if (handle.name === name && handle.owner === owner) {
+                    return handle as AssetBundle<B>;
                 }
-            } catch (error) {
-                console.error(`AssetLoader: Failed to load asset ${asset.name} from ${asset.url}`, error);
             }
         }
-        console.log("AssetLoader: Finished loading assets (placeholder)");
-        return loadedAssets;
+
+        const handle = new AssetBundle(name, this, owner ?? null);
+        this.bundleHandles.add(handle);
+        for (const path of this.getAllBundlePaths(name)) {
+            this.assetRefs.set(path, (this.assetRefs.get(path) ?? 0) + 1);
+        }
+        return handle;
     }
 
-    public async isEverythingLoaded(): Promise<void> {
-        console.log(`[AssetLoader] isEverythingLoaded called. Current _isLoadComplete: ${this._isLoadComplete}, pending promises: ${this.pendingPromises.length}`);
+    public isBundleLoaded(name: BundleName): boolean {
+        const paths = this.getBundlePaths(name);
+        return paths.textures.every(path => this.textureCache.has(path))
+            && paths.atlases.every(path => this.atlasCache.has(path))
+            && paths.models.every(path => this.modelCache.has(path))
+            && paths.audio.every(path => this.audioCache.has(path));
+    }
 
-        // Wait for both:
-        // 1. LoadingManager's onLoad callback
-        // 2. All individual load promises to complete
-        await new Promise<void>((resolve, reject) => {
-            const originalOnLoad = this.loadingManager.onLoad;
-            const originalOnError = this.loadingManager.onError;
+    // Called by AssetBundle.release(). Releasing a handle twice does nothing.
+    public releaseHandle(handle: AssetBundle<BundleName>): void {
+        if (!this.bundleHandles.delete(handle)) return;
 
-            this.loadingManager.onLoad = () => {
-                console.log(`[AssetLoader] LoadingManager onLoad triggered`);
-                this._isLoadComplete = true;
-                if (originalOnLoad) originalOnLoad();
-                resolve();
-            };
+        let evicted = 0;
+        for (const path of this.getAllBundlePaths(handle.name)) {
+            const refs = (this.assetRefs.get(path) ?? 1) - 1;
+            if (refs > 0) {
+                this.assetRefs.set(path, refs);
+                continue;
+            }
+            this.assetRefs.delete(path);
+            this.evict(path);
+            evicted++;
+        }
+        console.log(`[AssetLoader] Released "${handle.name}"${handle.owner ? ` (held by ${handle.owner})` : ''}, ${evicted} assets evicted.`);
+    }
 
-            this.loadingManager.onError = (url) => {
-                console.error(`[AssetLoader] LoadingManager onError for URL: ${url}`);
-                if (originalOnError) originalOnError(url);
-                reject(new Error(`Asset loading failed for URL: ${url}`));
+    // Releases every handle an owner holds, e.g. all bundles SceneManager loaded for a scene
+    public releaseOwner(owner: string): void {
+        for (const handle of Array.from(this.bundleHandles)) {
+            if (handle.owner === owner) {
+                handle.release();
+            }
+        }
+    }
+
+    // Releases every handle of a bundle, whoever holds it; anything still showing its assets must be gone by then
+    public releaseBundle(name: BundleName): void {
+        for (const handle of Array.from(this.bundleHandles)) {
+            if (handle.name === name) {
+                handle.release();
+            }
+        }
+    }
+
+    /**
+     * Drops an asset from its cache and frees its GPU memory. A load still on its way is evicted
+     * when it lands, unless a new handle took a reference to it meanwhile.
+     */
+    private evict(path: string): void {
+        const inflight = this.inflightLoads.get(path);
+        if (inflight) {
+            const evictIfUnused = () => {
+                if (!this.assetRefs.has(path)) this.evict(path);
             };
+            inflight.then(evictIfUnused, evictIfUnused);
+            return;
+        }
 
-            // If already complete, resolve immediately
-            if (this._isLoadComplete) {
-                resolve();
+        const texture = this.textureCache.get(path);
+        if (texture && texture !== this.defaultTexture) {
+            texture.dispose();
+        }
+        this.atlasCache.get(path)?.dispose();
+        const model = this.modelCache.get(path);
+        if (model) {
+            ResourceDisposer.disposeObject(model);
+        }
+        // Audio buffers are plain memory, freed once SoundManager drops its sounds too
+        const audio = this.audioCache.get(path);
+        [this.textureCache, this.atlasCache, this.modelCache, this.audioCache].forEach(cache => this.forget(path, cache));
+        if (audio && audio !== this.defaultAudioBuffer) {
+            this.audioEvictionListeners.forEach(listener => listener(audio));
+        }
+    }
+
+    private forget(path: string, cache: Map<string, unknown>): void {
+        cache.delete(path);
+        this.settledLoads.delete(path);
+        this.byteProgress.delete(path);
+    }
+
+    private getBundlePaths(name: BundleName): { textures: string[], atlases: string[], models: string[], audio: string[] } {
+        const bundle: BundleDefinition = ASSET_BUNDLES[name];
+        return {
+            textures: (bundle.textures ?? []).map(id => this.resolvePath(ASSET_MANIFEST.textures[id])),
+            atlases: (bundle.atlases ?? []).map(id => this.resolvePath(ASSET_MANIFEST.atlases[id])),
+            models: (bundle.models ?? []).map(id => this.resolvePath(ASSET_MANIFEST.models[id])),
+            audio: (bundle.audio ?? []).map(id => this.resolvePath(ASSET_MANIFEST.audio[id]))
+        };
+    }
+
+    private getAllBundlePaths(name: BundleName): string[] {
+        const paths = this.getBundlePaths(name);
+        return [...paths.textures, ...paths.atlases, ...paths.models, ...paths.audio];
+    }
+
+    // Combined progress of the bundles; cheap enough to poll every frame
+    public getBundleProgress(names: readonly BundleName[]): AssetLoadProgress {
+        const paths = new Set<string>();
+        for (const name of names) {
+            this.getAllBundlePaths(name).forEach(path => paths.add(path));
+        }
+        return this.summarizeProgress(Array.from(paths));
+    }
+
+    // Progress of everything requested so far, as counted by the LoadingManager
+    public getProgress(): AssetLoadProgress {
+        const { loadedBytes, totalBytes } = this.summarizeProgress(Array.from(this.byteProgress.keys()));
+        return { loadedItems: this.itemsLoaded, totalItems: this.itemsTotal, loadedBytes, totalBytes };
+    }
+
+    private summarizeProgress(paths: string[]): AssetLoadProgress {
+        const progress: AssetLoadProgress = { loadedItems: 0, totalItems: paths.length, loadedBytes: 0, totalBytes: 0 };
+        for (const path of paths) {
+            if (this.settledLoads.has(path)) {
+                progress.loadedItems++;
+            }
+            const bytes = this.byteProgress.get(path);
+            if (bytes) {
+                progress.loadedBytes += bytes.loaded;
+                progress.totalBytes += bytes.total;
             }
+        }
+        return progress;
+    }
+
+    public getMemoryReport(): AssetMemoryReport {
+        const report: AssetMemoryReport = {
+            textures: 0, textureBytes: 0, models: 0, geometries: 0, audioBuffers: 0, audioSeconds: 0, audioBytes: 0,
+            gpuTextures: 0, gpuGeometries: 0, bundles: []
+        };
+
+        const textures = Array.from(this.textureCache.values());
+        this.atlasCache.forEach(atlas => {
+            const sheet = atlas.getSheet();
+            if (sheet) textures.push(sheet);
+        });
+        for (const texture of new Set(textures)) {
+            if (texture === this.defaultTexture) continue;
+            report.textures++;
+            report.textureBytes += this.estimateTextureBytes(texture);
+        }
+
+        const geometries = new Set<THREE.BufferGeometry>();
+        this.modelCache.forEach(model => {
+            report.models++;
+            model.traverse(child => {
+                if ((child as THREE.Mesh).isMesh) geometries.add((child as THREE.Mesh).geometry);
+            });
+        });
+        report.geometries = geometries.size;
+
+        this.audioCache.forEach(buffer => {
+            if (buffer === this.defaultAudioBuffer) return;
+            report.audioBuffers++;
+            report.audioSeconds += buffer.duration;
+            report.audioBytes += buffer.length * buffer.numberOfChannels * 4; // Decoded to 32-bit floats
         });
 
-        // Wait for all individual load operations to complete
-        if (this.pendingPromises.length > 0) {
-            console.log(`[AssetLoader] Waiting for ${this.pendingPromises.length} pending operations`);
-            await Promise.all(this.pendingPromises);
-            this.pendingPromises = []; // Clear completed promises
+        const gpuMemory = this.gameEngine.getRenderer().info.memory;
+        report.gpuTextures = gpuMemory.textures;
+        report.gpuGeometries = gpuMemory.geometries;
+
+        const holders = new Map<BundleName, string[]>();
+        this.bundleHandles.forEach(handle => {
+            holders.set(handle.name, [...(holders.get(handle.name) ?? []), handle.owner ?? 'anonymous']);
+        });
+        holders.forEach((owners, name) => report.bundles.push({ name, holders: owners }));
+        return report;
+    }
+
+    // Uploaded as RGBA8, plus a third for mipmaps
+    private estimateTextureBytes(texture: THREE.Texture): number {
+        const image = texture.image as { width?: number, height?: number } | undefined;
+        if (!image?.width || !image.height) return 0;
+        const bytes = image.width * image.height * 4;
+        return texture.generateMipmaps ? Math.round(bytes * 4 / 3) : bytes;
+    }
+
+    public getCacheStatus(): Promise<AssetCacheStatus> {
+        return this.askServiceWorker('GET_CACHE_STATUS', CACHE_STATUS_TIMEOUT_MS);
+    }
+
+    // Has the service worker download every asset it doesn't have yet; resolves once it is done
+    public cacheAllAssets(): Promise<AssetCacheStatus> {
+        return this.askServiceWorker('CACHE_ALL', null);
+    }
+
+    private async askServiceWorker(type: 'GET_CACHE_STATUS' | 'CACHE_ALL', timeoutMs: number | null): Promise<AssetCacheStatus> {
+        const noCache: AssetCacheStatus = { state: 'unsupported', version: null, cachedAssets: 0, totalAssets: 0, downloading: false };
+        if (!('serviceWorker' in navigator)) {
+            return noCache;
+        }
+        const worker = navigator.serviceWorker.controller;
+        if (!worker) {
+            return { ...noCache, state: 'uncontrolled' };
         }
 
-        console.log(`[AssetLoader] All assets loaded confirmed`);
+        const channel = new MessageChannel();
+        const reply = new Promise<AssetCacheStatus>(resolve => {
+            channel.port1.onmessage = (event: MessageEvent<Omit<AssetCacheStatus, 'state'>>) => {
+                resolve({ ...event.data, state: 'active' });
+            };
+        });
+        worker.postMessage({ type }, [channel.port2]);
+        try {
+            return await (timeoutMs === null ? reply : this.withTimeout(reply, timeoutMs, 'service worker'));
+        } finally {
+            channel.port1.close();
+        }
     }
 }
\ No newline at end of file
@@ -0,0 +1,180 @@
+// src/utils/AssetManifest.ts
+
+// Every file the game loads, by id. Paths are relative to the assets/ folder.
+export const ASSET_MANIFEST = {
+    textures: {
+        'ui.cursor': 'cursor/cursor_normal.png',
+
+        'start_menu.background': 'start_menu/background.png',
+        'start_menu.button_normal': 'start_menu/button_normal.png',
+        'start_menu.button_hover': 'start_menu/button_hover.png',
+
+        'cena1.background': 'cena_1_trabalho/background.png',
+
+        'cena2.background': 'cena_2_rua/background.png',
+        'cena2.mao': 'cena_2_rua/mao.png',
+        'cena2.celular': 'cena_2_rua/celular2.png',
+        'cena2.thought1': 'cena_2_rua/thought1.png',
+        'cena2.thought2': 'cena_2_rua/thought2.png',
+        'cena2.post_1': 'cena_2_rua/posts/post_1.png',
+        'cena2.post_2': 'cena_2_rua/posts/post_2.png',
+        'cena2.post_3': 'cena_2_rua/posts/post_3.png',
+
+        'cena3.background': 'cena_3_galeria/background.png',
+        'cena3.select_kairos': 'cena_3_galeria/select_kairos.png',
+        'cena3.select_other': 'cena_3_galeria/select_other.png'
+    },
+    // TexturePacker JSON files; their sheet image sits next to them. Packed by scripts/pack-atlas.js from art/atlases/
+    atlases: {
+        'cena1.desk': 'cena_1_trabalho/desk.atlas.json',
+
+        'characters.bob': 'cena_3_galeria/bob.atlas.json',
+        'characters.marta': 'cena_3_galeria/marta.atlas.json'
+    },
+    models: {
+        'cena3.planta': 'cena_3_galeria/planta-cc.glb',
+        'cena3.mesa': 'cena_3_galeria/mesa-cc.glb',
+        'cena3.vitrola': 'cena_3_galeria/vitrola-cc.glb'
+    },
+    audio: {
+        'ui.click': 'sounds/click.mp3',
+        'ui.glitch_1': 'sounds/glitch_1.mp3',
+        'ui.glitch_2': 'sounds/glitch_2.mp3',
+        'ui.glitch_3': 'sounds/glitch_3.mp3',
+        'ui.glitch_4': 'sounds/glitch_4.mp3',
+        'ui.glitch_5': 'sounds/glitch_5.mp3',
+        'ui.glitch_6': 'sounds/glitch_6.mp3',
+        'ui.glitch_7': 'sounds/glitch_7.mp3',
+        'ui.glitch_8': 'sounds/glitch_8.mp3',
+        'ui.glitch_9': 'sounds/glitch_9.mp3',
+        'ui.glitch_10': 'sounds/glitch_10.mp3',
+        // Cues of the wipe, pixel dissolve and rain smear transitions; encoded from the WAVs made by scripts/make-transition-sounds.js
+        'ui.wipe': 'sounds/wipe.mp3',
+        'ui.dissolve': 'sounds/dissolve.mp3',
+        'ui.rain_smear': 'sounds/rain_smear.mp3',
+
+        // Impulse response of the mixer's reverb; made by scripts/make-impulse-response.js, kept lossless
+        'fx.reverb_ir': 'sounds/reverb_ir.wav',
+
+        'cena1.city_ambient': 'cena_1_trabalho/sounds/city_ambient.mp3',
+        'cena1.ac_ambient': 'cena_1_trabalho/sounds/ac_ambient.mp3',
+        'cena1.lid_open': 'cena_1_trabalho/sounds/lid_open.mp3',
+        'cena1.lid_close': 'cena_1_trabalho/sounds/lid_close.mp3',
+
+        'cena2.jazz': 'cena_2_rua/sounds/jazz.mp3',
+        'cena2.rain': 'cena_2_rua/sounds/rain.mp3',
+
+        'cena3.gallery_ambient_2': 'cena_3_galeria/sounds/gallery_ambient_2.mp3',
+
+        'characters.step_1': 'sounds/step_1.mp3',
+        'characters.step_2': 'sounds/step_2.mp3',
+        'characters.male_hurt': 'cena_3_galeria/sounds/male_hurt.mp3',
+        'characters.female_hurt': 'cena_3_galeria/sounds/female_hurt.mp3',
+        'characters.surprise_1': 'cena_3_galeria/sounds/surprise_1.mp3',
+        'characters.surprise_2': 'cena_3_galeria/sounds/surprise_2.mp3',
+        'characters.surprise_3': 'cena_3_galeria/sounds/surprise_3.mp3',
+        'characters.surprise_4': 'cena_3_galeria/sounds/surprise_4.mp3',
+        'characters.surprise_5': 'cena_3_galeria/sounds/surprise_5.mp3'
+    }
+} as const;
+
+export type TextureId = keyof typeof ASSET_MANIFEST.textures;
+export type ModelId = keyof typeof ASSET_MANIFEST.models;
+export type AudioId = keyof typeof ASSET_MANIFEST.audio;
+export type AtlasId = keyof typeof ASSET_MANIFEST.atlases;
+
+export type AudioFormat = 'opus' | 'ogg' | 'mp3';
+export type AudioQuality = 'low' | 'high';
+
+// Another encoding of a sound in the manifest, listed in AudioVariants.ts by scripts/encode-audio.js.
+// The manifest MP3 itself (stereo, 96 kbps) is always there to fall back on.
+export interface AudioVariant {
+    format: AudioFormat; // opus and ogg (Vorbis) files are Ogg containers
+    quality: AudioQuality;
+    channels: 1 | 2;
+    path: string; // Relative to the assets/ folder, like manifest paths
+}
+
+export interface BundleDefinition {
+    textures?: readonly TextureId[];
+    atlases?: readonly AtlasId[];
+    models?: readonly ModelId[];
+    audio?: readonly AudioId[];
+}
+
+// Assets loaded and unloaded together. A scene lists the bundles it needs in its static `bundles`.
+export const ASSET_BUNDLES = {
+    shared_ui: {
+        textures: ['ui.cursor'],
+        audio: [
+            'ui.click',
+            'ui.glitch_1', 'ui.glitch_2', 'ui.glitch_3', 'ui.glitch_4', 'ui.glitch_5',
+            'ui.glitch_6', 'ui.glitch_7', 'ui.glitch_8', 'ui.glitch_9', 'ui.glitch_10',
+            'ui.wipe', 'ui.dissolve', 'ui.rain_smear',
+            'fx.reverb_ir'
+        ]
+    },
+    start_menu: {
+        textures: ['start_menu.background', 'start_menu.button_normal', 'start_menu.button_hover']
+    },
+    cena1: {
+        textures: ['cena1.background'],
+        atlases: ['cena1.desk'], // Notebook, coffee mug, pen and papers
+        audio: ['cena1.city_ambient', 'cena1.ac_ambient', 'cena1.lid_open', 'cena1.lid_close']
+    },
+    cena2: {
+        textures: [
+            'cena2.background', 'cena2.mao', 'cena2.celular', 'cena2.thought1', 'cena2.thought2',
+            'cena2.post_1', 'cena2.post_2', 'cena2.post_3'
+        ],
+        audio: ['cena1.city_ambient', 'cena2.jazz', 'cena2.rain'] // City ambience carries on from cena1
+    },
+    cena3: {
+        models: ['cena3.planta', 'cena3.mesa', 'cena3.vitrola'],
+        textures: ['cena3.background', 'cena3.select_kairos', 'cena3.select_other'],
+        audio: ['cena3.gallery_ambient_2', 'cena2.jazz'] // The street's jazz plays from the vitrola
+    },
+    // Walking NPCs (Bob, Marta) and their sounds
+    characters: {
+        atlases: ['characters.bob', 'characters.marta'],
+        audio: [
+            'characters.step_1', 'characters.step_2', 'characters.male_hurt', 'characters.female_hurt',
+            'characters.surprise_1', 'characters.surprise_2', 'characters.surprise_3',
+            'characters.surprise_4', 'characters.surprise_5'
+        ]
+    }
+} as const satisfies Record<string, BundleDefinition>;
+
+export type BundleName = keyof typeof ASSET_BUNDLES;
+
+type BundleEntries<B extends BundleName, T extends keyof BundleDefinition> =
+    (typeof ASSET_BUNDLES)[B] extends { readonly [P in T]: readonly (infer Id)[] } ? Id : never;
+
+// Ids a bundle handle hands out, so asking a bundle for something it doesn't contain fails to compile
+export type BundleTextureId<B extends BundleName> = Extract<BundleEntries<B, 'textures'>, TextureId>;
+export type BundleAtlasId<B extends BundleName> = Extract<BundleEntries<B, 'atlases'>, AtlasId>;
+export type BundleModelId<B extends BundleName> = Extract<BundleEntries<B, 'models'>, ModelId>;
+export type BundleAudioId<B extends BundleName> = Extract<BundleEntries<B, 'audio'>, AudioId>;
+
+// What to do once every retry of a load has failed: try another file (falling back to the
+// placeholder if that fails too), use the placeholder (checkerboard texture, silent audio,
+// empty model, atlas without frames) or reject the load
+export type AssetFallback = { alternate: string } | 'placeholder' | 'fail';
+
+export interface AssetLoadPolicy {
+    retries?: number; // Extra attempts after the first one, with exponential backoff
+    timeoutMs?: number; // Per attempt
+    fallback?: AssetFallback;
+}
+
+// Overrides of AssetLoader's per-type defaults (textures, atlases and audio: placeholder, models: fail)
+export const ASSET_LOAD_POLICIES: { readonly [Id in TextureId | AtlasId | ModelId | AudioId]?: AssetLoadPolicy } = {
+    // The gallery is still playable without its props, so don't fail the scene over one of them
+    'cena3.planta': { timeoutMs: 60000, fallback: 'placeholder' },
+    'cena3.mesa': { timeoutMs: 60000, fallback: 'placeholder' },
+    'cena3.vitrola': { timeoutMs: 60000, fallback: 'placeholder' },
+    'cena3.gallery_ambient_2': { fallback: { alternate: 'cena_3_galeria/sounds/gallery_ambient_1.mp3' } },
+    // Art still to come (scripts/check-assets.js reports it missing); don't waste retries on it
+    'cena3.select_kairos': { retries: 0, fallback: 'placeholder' },
+    'cena3.select_other': { retries: 0, fallback: 'placeholder' }
+};
@@ -0,0 +1,187 @@
+// src/utils/AudioVariants.ts
+// Generated by scripts/encode-audio.js from the WAVs in art/audio/ (or the manifest MP3s); rerun `npm run encode-audio` instead of editing.
+import { AudioId, AudioVariant } from './AssetManifest';
+
+// Sounds without an entry only have their manifest MP3
+export const AUDIO_VARIANTS: { readonly [Id in AudioId]?: readonly AudioVariant[] } = {
+    'ui.click': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'sounds/click.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'sounds/click.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'sounds/click.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'sounds/click.low.mp3' }
+    ],
+    'ui.glitch_1': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'sounds/glitch_1.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'sounds/glitch_1.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'sounds/glitch_1.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'sounds/glitch_1.low.mp3' }
+    ],
+    'ui.glitch_2': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'sounds/glitch_2.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'sounds/glitch_2.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'sounds/glitch_2.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'sounds/glitch_2.low.mp3' }
+    ],
+    'ui.glitch_3': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'sounds/glitch_3.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'sounds/glitch_3.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'sounds/glitch_3.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'sounds/glitch_3.low.mp3' }
+    ],
+    'ui.glitch_4': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'sounds/glitch_4.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'sounds/glitch_4.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'sounds/glitch_4.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'sounds/glitch_4.low.mp3' }
+    ],
+    'ui.glitch_5': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'sounds/glitch_5.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'sounds/glitch_5.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'sounds/glitch_5.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'sounds/glitch_5.low.mp3' }
+    ],
+    'ui.glitch_6': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'sounds/glitch_6.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'sounds/glitch_6.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'sounds/glitch_6.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'sounds/glitch_6.low.mp3' }
+    ],
+    'ui.glitch_7': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'sounds/glitch_7.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'sounds/glitch_7.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'sounds/glitch_7.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'sounds/glitch_7.low.mp3' }
+    ],
+    'ui.glitch_8': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'sounds/glitch_8.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'sounds/glitch_8.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'sounds/glitch_8.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'sounds/glitch_8.low.mp3' }
+    ],
+    'ui.glitch_9': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'sounds/glitch_9.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'sounds/glitch_9.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'sounds/glitch_9.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'sounds/glitch_9.low.mp3' }
+    ],
+    'ui.glitch_10': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'sounds/glitch_10.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'sounds/glitch_10.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'sounds/glitch_10.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'sounds/glitch_10.low.mp3' }
+    ],
+    'ui.wipe': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'sounds/wipe.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'sounds/wipe.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'sounds/wipe.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'sounds/wipe.low.mp3' }
+    ],
+    'ui.dissolve': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'sounds/dissolve.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'sounds/dissolve.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'sounds/dissolve.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'sounds/dissolve.low.mp3' }
+    ],
+    'ui.rain_smear': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'sounds/rain_smear.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'sounds/rain_smear.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'sounds/rain_smear.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'sounds/rain_smear.low.mp3' }
+    ],
+    'cena1.city_ambient': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'cena_1_trabalho/sounds/city_ambient.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'cena_1_trabalho/sounds/city_ambient.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'cena_1_trabalho/sounds/city_ambient.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'cena_1_trabalho/sounds/city_ambient.low.mp3' }
+    ],
+    'cena1.ac_ambient': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'cena_1_trabalho/sounds/ac_ambient.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'cena_1_trabalho/sounds/ac_ambient.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'cena_1_trabalho/sounds/ac_ambient.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'cena_1_trabalho/sounds/ac_ambient.low.mp3' }
+    ],
+    'cena1.lid_open': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'cena_1_trabalho/sounds/lid_open.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'cena_1_trabalho/sounds/lid_open.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'cena_1_trabalho/sounds/lid_open.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'cena_1_trabalho/sounds/lid_open.low.mp3' }
+    ],
+    'cena1.lid_close': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'cena_1_trabalho/sounds/lid_close.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'cena_1_trabalho/sounds/lid_close.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'cena_1_trabalho/sounds/lid_close.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'cena_1_trabalho/sounds/lid_close.low.mp3' }
+    ],
+    'cena2.jazz': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'cena_2_rua/sounds/jazz.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'cena_2_rua/sounds/jazz.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'cena_2_rua/sounds/jazz.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'cena_2_rua/sounds/jazz.low.mp3' }
+    ],
+    'cena2.rain': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'cena_2_rua/sounds/rain.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'cena_2_rua/sounds/rain.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'cena_2_rua/sounds/rain.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'cena_2_rua/sounds/rain.low.mp3' }
+    ],
+    'cena3.gallery_ambient_2': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'cena_3_galeria/sounds/gallery_ambient_2.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'cena_3_galeria/sounds/gallery_ambient_2.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'cena_3_galeria/sounds/gallery_ambient_2.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'cena_3_galeria/sounds/gallery_ambient_2.low.mp3' }
+    ],
+    'characters.step_1': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'sounds/step_1.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'sounds/step_1.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'sounds/step_1.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'sounds/step_1.low.mp3' }
+    ],
+    'characters.step_2': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'sounds/step_2.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'sounds/step_2.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'sounds/step_2.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'sounds/step_2.low.mp3' }
+    ],
+    'characters.male_hurt': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'cena_3_galeria/sounds/male_hurt.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'cena_3_galeria/sounds/male_hurt.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'cena_3_galeria/sounds/male_hurt.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'cena_3_galeria/sounds/male_hurt.low.mp3' }
+    ],
+    'characters.female_hurt': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'cena_3_galeria/sounds/female_hurt.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'cena_3_galeria/sounds/female_hurt.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'cena_3_galeria/sounds/female_hurt.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'cena_3_galeria/sounds/female_hurt.low.mp3' }
+    ],
+    'characters.surprise_1': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'cena_3_galeria/sounds/surprise_1.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'cena_3_galeria/sounds/surprise_1.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'cena_3_galeria/sounds/surprise_1.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'cena_3_galeria/sounds/surprise_1.low.mp3' }
+    ],
+    'characters.surprise_2': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'cena_3_galeria/sounds/surprise_2.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'cena_3_galeria/sounds/surprise_2.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'cena_3_galeria/sounds/surprise_2.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'cena_3_galeria/sounds/surprise_2.low.mp3' }
+    ],
+    'characters.surprise_3': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'cena_3_galeria/sounds/surprise_3.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'cena_3_galeria/sounds/surprise_3.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'cena_3_galeria/sounds/surprise_3.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'cena_3_galeria/sounds/surprise_3.low.mp3' }
+    ],
+    'characters.surprise_4': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'cena_3_galeria/sounds/surprise_4.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'cena_3_galeria/sounds/surprise_4.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'cena_3_galeria/sounds/surprise_4.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'cena_3_galeria/sounds/surprise_4.low.mp3' }
+    ],
+    'characters.surprise_5': [
+        { format: 'opus', quality: 'high', channels: 2, path: 'cena_3_galeria/sounds/surprise_5.high.opus' },
+        { format: 'opus', quality: 'low', channels: 1, path: 'cena_3_galeria/sounds/surprise_5.low.opus' },
+        { format: 'ogg', quality: 'high', channels: 2, path: 'cena_3_galeria/sounds/surprise_5.high.ogg' },
+        { format: 'mp3', quality: 'low', channels: 1, path: 'cena_3_galeria/sounds/surprise_5.low.mp3' }
+    ]
+};
@@ -0,0 +1,34 @@
+// src/utils/CanvasText.ts
+import * as THREE from 'three';
+
+// Single lines of text drawn in the game font onto a canvas, for menus, overlays and labels
+export class CanvasText {
+    // Centred on a `width` x 256 canvas; the caller owns (and disposes) the texture
+    public static createTexture(text: string, color: string, fontSize: number, width: number = 1024): THREE.CanvasTexture {
+        const canvas = document.createElement('canvas');
+        canvas.width = width;
+        canvas.height = 256;
+        const context = canvas.getContext('2d');
+        if (!context) throw new Error(`Could not get 2D context for text "${text}"`);
+
+        context.fillStyle = color;
+        context.font = `${fontSize}px Thata-Regular, sans-serif`;
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        context.fillText(text, canvas.width / 2, canvas.height / 2);
+
+        const texture = new THREE.CanvasTexture(canvas);
+        texture.needsUpdate = true;
+        return texture;
+    }
+
+    // Drawn over everything else (no depth test) unless `material` says otherwise
+    public static createSprite(text: string, color: string, fontSize: number, material: THREE.SpriteMaterialParameters = {}): THREE.Sprite {
+        return new THREE.Sprite(new THREE.SpriteMaterial({
+            map: CanvasText.createTexture(text, color, fontSize),
+            transparent: true,
+            depthTest: false,
+            ...material
+        }));
+    }
+}
@@ -0,0 +1,67 @@
+// src/utils/ResourceDisposer.ts
+import * as THREE from 'three';
+
+// Frees the GPU side of three.js objects (geometries, materials, textures).
+// Disposed textures that are used again later are simply uploaded again by the renderer.
+export class ResourceDisposer {
+    /**
+     * Disposes everything under `object` and detaches it from its parent.
+     * Objects flagged `userData.sharedAcrossScenes` (custom cursor, transition overlay) are only detached.
+     */
+    public static disposeObject(object: THREE.Object3D, disposeTextures: boolean = true): void {
+        const shared: THREE.Object3D[] = [];
+        object.traverse(child => {
+            if (child !== object && child.userData.sharedAcrossScenes) {
+                shared.push(child);
+            }
+        });
+        shared.forEach(child => child.removeFromParent());
+
+        object.traverse(child => {
+            const { geometry, material } = child as THREE.Mesh;
+            // Sprites all share one geometry owned by three.js
+            if (geometry && !(child instanceof THREE.Sprite)) {
+                geometry.dispose();
+            }
+            if (material) {
+                const materials = Array.isArray(material) ? material : [material];
+                materials.forEach(m => ResourceDisposer.disposeMaterial(m, disposeTextures));
+            }
+        });
+        object.removeFromParent();
+    }
+
+    public static disposeMaterial(material: THREE.Material, disposeTextures: boolean = true): void {
+        if (disposeTextures) {
+            for (const value of Object.values(material)) {
+                if (value instanceof THREE.Texture) {
+                    value.dispose();
+                }
+            }
+            const uniforms = (material as THREE.ShaderMaterial).uniforms;
+            if (uniforms) {
+                for (const uniform of Object.values(uniforms)) {
+                    if (uniform?.value instanceof THREE.Texture) {
+                        uniform.value.dispose();
+                    }
+                }
+            }
+        }
+        material.dispose();
+    }
+
+    // Empties the scene, disposing every child and the background texture
+    public static disposeScene(scene: THREE.Scene): void {
+        for (const child of [...scene.children]) {
+            if (child.userData.sharedAcrossScenes) {
+                scene.remove(child);
+            } else {
+                ResourceDisposer.disposeObject(child);
+            }
+        }
+        if (scene.background instanceof THREE.Texture) {
+            scene.background.dispose();
+        }
+        scene.background = null;
+    }
+}
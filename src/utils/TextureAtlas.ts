@@ -0,0 +1,129 @@
+// src/utils/TextureAtlas.ts
+import * as THREE from 'three';
+
+export interface AtlasRect {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+// One frame as TexturePacker describes it, in pixels of the sheet
+export interface AtlasFrame {
+    frame: AtlasRect;
+    rotated: boolean;
+    trimmed: boolean;
+    spriteSourceSize: AtlasRect;
+    sourceSize: { w: number, h: number };
+}
+
+interface TexturePackerMeta {
+    image: string; // Relative to the JSON file
+    size: { w: number, h: number };
+}
+
+// TexturePacker's "JSON (Hash)" keys frames by name, "JSON (Array)" lists them with a filename each
+export type TexturePackerData =
+    | { frames: { [name: string]: AtlasFrame }, meta: TexturePackerMeta }
+    | { frames: Array<AtlasFrame & { filename: string }>, meta: TexturePackerMeta };
+
+// Part of the sheet each frame texture shows, in UV units, so flipping can mirror within it
+const frameBounds: WeakMap<THREE.Texture, { offsetX: number, repeatX: number }> = new WeakMap();
+
+// Frames are looked up without their extension: 'walk_1.png' is 'walk_1'
+function toFrameName(filename: string): string {
+    return filename.replace(/\.(png|jpe?g|webp)$/i, '');
+}
+
+/**
+ * Reads a TexturePacker JSON file in either layout. Throws on anything else, and on rotated frames,
+ * which a texture's repeat/offset can't express (export with rotation disabled).
+ */
+export function parseTexturePackerData(data: TexturePackerData, source: string): { image: string, size: { w: number, h: number }, frames: Map<string, AtlasFrame> } {
+    if (!data || typeof data !== 'object' || !data.frames || !data.meta?.image || !data.meta.size) {
+        throw new Error(`${source} is not a TexturePacker JSON atlas`);
+    }
+
+    const entries: Array<[string, AtlasFrame]> = Array.isArray(data.frames)
+        ? data.frames.map(frame => [frame.filename, frame] as [string, AtlasFrame])
+        : Object.keys(data.frames).map(name => [name, (data.frames as { [name: string]: AtlasFrame })[name]] as [string, AtlasFrame]);
+
+    const frames = new Map<string, AtlasFrame>();
+    for (const [filename, frame] of entries) {
+        if (frame.rotated) {
+            throw new Error(`${source}: frame "${filename}" is rotated; re-export the atlas without rotation`);
+        }
+        frames.set(toFrameName(filename), frame);
+    }
+    return { image: data.meta.image, size: data.meta.size, frames };
+}
+
+/**
+ * A sheet texture and one texture per frame. Frame textures share the sheet's image, so the GPU
+ * gets a single upload however many frames are on screen; each only shifts its UVs onto its frame.
+ */
+export class TextureAtlas {
+    private frameTextures: Map<string, THREE.Texture> = new Map();
+
+    constructor(
+        public readonly name: string,
+        private sheet: THREE.Texture | null, // null for a placeholder atlas
+        size: { w: number, h: number },
+        private frames: Map<string, AtlasFrame>,
+        private missingFrame: THREE.Texture // Handed out for unknown frames
+    ) {
+        // Created up front: cloning marks the shared image for upload, better before the first render than mid-scene
+        if (!sheet) return;
+        frames.forEach((data, frameName) => {
+            const texture = sheet.clone();
+            texture.name = `${name}#${frameName}`;
+            const { x, y, w, h } = data.frame;
+            texture.repeat.set(w / size.w, h / size.h);
+            // UV origin is bottom-left when the image is flipped on upload (the default)
+            texture.offset.set(x / size.w, texture.flipY ? 1 - (y + h) / size.h : y / size.h);
+            frameBounds.set(texture, { offsetX: texture.offset.x, repeatX: texture.repeat.x });
+            this.frameTextures.set(frameName, texture);
+        });
+    }
+
+    // The texture the frames share, null for a placeholder atlas
+    public getSheet(): THREE.Texture | null {
+        return this.sheet;
+    }
+
+    public get frameNames(): string[] {
+        return Array.from(this.frames.keys());
+    }
+
+    public hasFrame(frameName: string): boolean {
+        return this.frames.has(frameName);
+    }
+
+    // Pixel data of a frame, e.g. to place a trimmed frame where it sat in its source image
+    public getFrameData(frameName: string): AtlasFrame | undefined {
+        return this.frames.get(frameName);
+    }
+
+    // Shared between everything that asks for the same frame, like the textures of getTexture()
+    public frame(frameName: string): THREE.Texture {
+        const texture = this.frameTextures.get(frameName);
+        if (!texture) {
+            console.warn(`[TextureAtlas] "${this.name}" has no frame "${frameName}".`);
+            return this.missingFrame;
+        }
+        return texture;
+    }
+
+    public dispose(): void {
+        this.frameTextures.forEach(texture => texture.dispose());
+        this.frameTextures.clear();
+        this.sheet?.dispose();
+    }
+}
+
+// Mirrors a texture horizontally through repeat/offset; works for whole textures and atlas frames alike
+export function setTextureFlipX(texture: THREE.Texture, flipped: boolean): void {
+    const { offsetX, repeatX } = frameBounds.get(texture) ?? { offsetX: 0, repeatX: 1 };
+    texture.repeat.x = flipped ? -repeatX : repeatX;
+    texture.offset.x = flipped ? offsetX + repeatX : offsetX;
+}
@@ -2,6 +2,7 @@ const path = require('path');
 const HtmlWebpackPlugin = require('html-webpack-plugin');
 const CopyWebpackPlugin = require('copy-webpack-plugin');
 const ESLintPlugin = require('eslint-webpack-plugin');
+const ServiceWorkerPlugin = require('./scripts/service-worker-plugin');
 
 module.exports = {
   mode: 'development',
@@ -36,6 +37,10 @@ module.exports = {
         { from: 'src/assets', to: 'assets' }
       ]
     }),
+    new ServiceWorkerPlugin({
+      template: path.resolve(__dirname, 'src/service-worker.js'),
+      extraAssets: ['fonts/Thata-Regular-2024-08-15.ttf'] // Loaded through FontFace, not the manifest
+    }),
     new ESLintPlugin({
       extensions: ['ts', 'js'],
       exclude: 'node_modules',